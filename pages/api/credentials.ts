@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { deleteCredential, isVaultEnabled, listCredentials, saveCredential } from '../../src/server/credentialVault';
+import { getSearchProvider } from '../../src/server/searchProviders';
+import { checkVaultAccess } from '../../src/server/vaultAccess';
+import { missingCredentials } from '../../src/utils/SearchProviders';
+import {
+  API_VERSION,
+  credentialCreateRequestSchema,
+  CredentialCreateResponse,
+  credentialDeleteQuerySchema,
+  CredentialListResponse,
+  fieldError,
+  invalidRequest,
+  missingCredentialsError
+} from '../../src/utils/ApiContracts';
+
+// Manages the provider keys in the server-side vault. Keys go in through POST
+// and never come back out; responses only carry masked summaries
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Servers without a vault have nothing to protect; the browser only learns
+  // that it should keep its own keys
+  if (req.method === 'GET' && !isVaultEnabled()) {
+    return res.status(200).json({ version: API_VERSION, credentials: [], vaultEnabled: false } satisfies CredentialListResponse);
+  }
+
+  const denial = checkVaultAccess(req.headers.authorization);
+  if (denial) {
+    return res.status(denial.status).json({ error: denial.error });
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({
+          version: API_VERSION,
+          credentials: await listCredentials(),
+          vaultEnabled: true
+        } satisfies CredentialListResponse);
+      case 'POST':
+        return await createCredential(req, res);
+      case 'DELETE': {
+        const query = credentialDeleteQuerySchema.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json(invalidRequest(query.error));
+        }
+        if (!(await deleteCredential(query.data.id))) {
+          return res.status(404).json({ error: 'Credential not found' });
+        }
+        return res.status(204).end();
+      }
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Credential API error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Credential vault error'
+    });
+  }
+}
+
+async function createCredential(req: NextApiRequest, res: NextApiResponse) {
+  const body = credentialCreateRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json(invalidRequest(body.error));
+  }
+  const { provider: providerId, label, credentials } = body.data;
+
+  const provider = await getSearchProvider(providerId);
+  if (!provider) {
+    return res.status(400).json(fieldError('provider', `Unsupported search provider "${providerId}"`));
+  }
+
+  const missing = missingCredentials(provider, credentials);
+  if (missing.length > 0) {
+    return res.status(400).json(missingCredentialsError(provider, missing));
+  }
+
+  // Only the fields the provider declares are kept
+  const fields = Object.fromEntries(provider.credentials.map(field => [field.id, String(credentials[field.id]).trim()]));
+  const credential = await saveCredential(provider.id, label || provider.displayName, fields);
+  res.status(201).json({ version: API_VERSION, credential } satisfies CredentialCreateResponse);
+}
@@ -0,0 +1,13 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { listSearchProviders } from '../../src/server/searchProviders';
+import { API_VERSION, SearchProvidersResponse } from '../../src/utils/ApiContracts';
+
+// Descriptors for every registered provider, including internal ones loaded
+// from SEARCH_PROVIDER_MODULES, so the setup form can offer them
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.status(200).json({ version: API_VERSION, providers: await listSearchProviders() } satisfies SearchProvidersResponse);
+}
@@ -0,0 +1,61 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { checkProviderCredentials } from '../../src/server/credentialCheck';
+import { isVaultEnabled } from '../../src/server/credentialVault';
+import { getSearchProvider } from '../../src/server/searchProviders';
+import { checkVaultAccess } from '../../src/server/vaultAccess';
+import { missingCredentials } from '../../src/utils/SearchProviders';
+import {
+  API_VERSION,
+  fieldError,
+  invalidRequest,
+  missingCredentialsError,
+  ValidateCredentialsResponse,
+  validateCredentialsRequestSchema
+} from '../../src/utils/ApiContracts';
+
+// Tests a key before the setup form saves it. The result is always a 200 with
+// a status; 400s are reserved for requests that can't be checked at all
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // A shared server would otherwise let anyone who reaches it call the
+  // providers through it, so vault mode asks for the vault's token here too
+  if (isVaultEnabled()) {
+    const denial = checkVaultAccess(req.headers.authorization);
+    if (denial) {
+      return res.status(denial.status).json({ error: denial.error });
+    }
+  }
+
+  const body = validateCredentialsRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json(invalidRequest(body.error));
+  }
+  const { provider: providerId, credentials, engineId } = body.data;
+
+  const provider = await getSearchProvider(providerId);
+  if (!provider) {
+    return res.status(400).json(fieldError('provider', `Unsupported search provider "${providerId}"`));
+  }
+
+  const missing = missingCredentials(provider, credentials);
+  if (missing.length > 0) {
+    return res.status(400).json(missingCredentialsError(provider, missing));
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const result = await checkProviderCredentials(provider, {
+    credentials,
+    engineId,
+    signal: controller.signal
+  });
+  if (controller.signal.aborted) return;
+
+  res.status(200).json({ version: API_VERSION, result } satisfies ValidateCredentialsResponse);
+}
@@ -1,130 +1,206 @@
-export default async function handler(req: any, res: any) {
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isVaultEnabled, resolveCredential } from '../../src/server/credentialVault';
+import { fetchPageContent } from '../../src/server/pageFetch';
+import { readSearchCache, SearchCacheKey, writeSearchCache } from '../../src/server/searchCache';
+import { guardedSearch } from '../../src/server/searchGuard';
+import { checkVaultAccess } from '../../src/server/vaultAccess';
+import { getSearchProvider, ProviderSearchRequest, SearchProvider, SearchResultItem } from '../../src/server/searchProviders';
+import { runWithConcurrency } from '../../src/utils/TaskPool';
+import {
+  API_VERSION,
+  fieldError,
+  invalidRequest,
+  missingCredentialsError,
+  WebsearchResponse,
+  websearchRequestSchema
+} from '../../src/utils/ApiContracts';
+import { missingCredentials, SearchFailureReason, SearchProviderError } from '../../src/utils/SearchProviders';
+
+const FAILURE_STATUS: Record<SearchFailureReason, number> = {
+  rate_limited: 429,
+  circuit_open: 503,
+  timeout: 504,
+  unavailable: 502,
+  rejected: 502,
+  failed: 500
+};
+
+// Pages downloaded at once per query in deep mode
+const PAGE_FETCH_CONCURRENCY = 5;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { query, apiKey, apiType = 'google', numResults = 5 } = req.body;
-
-  if (!query || !apiKey) {
-    return res.status(400).json({ error: 'Query and API key are required' });
+  const body = websearchRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json(invalidRequest(body.error));
   }
-
-  try {
-    let results = [];
-
-    switch (apiType) {
-      case 'google':
-        results = await performGoogleSearch(query, apiKey, numResults);
-        break;
-      case 'bing':
-        results = await performBingSearch(query, apiKey, numResults);
-        break;
-      case 'serpapi':
-        results = await performSerpApiSearch(query, apiKey, numResults);
-        break;
-      default:
-        return res.status(400).json({ error: 'Unsupported API type' });
-    }
-
-    res.status(200).json({
-      results,
-      query,
-      total: results.length
-    });
-  } catch (error) {
-    console.error('Search API error:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Search failed' 
-    });
+  const {
+    query,
+    provider: providerId,
+    credentialId,
+    credentials: inlineCredentials,
+    engineId,
+    forms,
+    startDate,
+    endDate,
+    numResults,
+    deep,
+    bypassCache
+  } = body.data;
+
+  const provider = await getSearchProvider(providerId);
+  if (!provider) {
+    return res.status(400).json(fieldError('provider', `Unsupported search provider "${providerId}"`));
   }
-}
 
-async function performGoogleSearch(query: string, apiKey: string, numResults: number) {
-  // For Google Custom Search, users need both API key and Custom Search Engine ID
-  // For demo purposes, we'll use a general search endpoint
-  const response = await fetch(
-    `https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=017576662512468239146:omuauf_lfve&q=${encodeURIComponent(query)}&num=${numResults}`,
-    {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
+  // Keys are looked up in the vault by ID, so they never pass through the
+  // browser. Servers without a vault are single-user and take them inline
+  let credentials: Record<string, string> = {};
+  if (provider.credentials.length > 0 && !isVaultEnabled()) {
+    credentials = inlineCredentials ?? {};
+  } else if (provider.credentials.length > 0) {
+    // Spending a stored key takes the same token as managing the vault
+    const denial = checkVaultAccess(req.headers.authorization);
+    if (denial) {
+      return res.status(denial.status).json({ error: denial.error, reason: 'rejected' });
+    }
+    try {
+      const stored = credentialId ? await resolveCredential(credentialId) : undefined;
+      if (!stored || stored.provider !== provider.id) {
+        return res.status(400).json(fieldError('credentialId', `No stored ${provider.displayName} credential with that ID`));
       }
+      credentials = stored.fields;
+    } catch (error) {
+      console.error('Credential vault error:', error);
+      return res.status(500).json({ error: 'Could not read the stored credential', reason: 'failed' });
     }
-  );
+  }
 
-  if (!response.ok) {
-    throw new Error(`Google Search API error: ${response.status} ${response.statusText}`);
+  const missing = missingCredentials(provider, credentials);
+  if (missing.length > 0) {
+    return res.status(400).json(missingCredentialsError(provider, missing));
   }
 
-  const data = await response.json();
-  
-  if (data.error) {
-    throw new Error(`Google Search API error: ${data.error.message}`);
+  // Stop upstream requests when the client cancels or goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  const { signal } = controller;
+
+  const request = { query, credentials, engineId, forms, startDate, endDate, numResults, signal };
+  const invalid = provider.validateRequest?.(request);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
   }
 
-  return data.items?.map((item: any) => ({
-    url: item.link,
-    title: item.title,
-    content: item.snippet,
-    snippet: item.snippet
-  })) || [];
-}
+  const fetchPages = deep && !provider.returnsFullText;
+  const cacheKey: SearchCacheKey = {
+    provider: provider.id, query, numResults, deep: fetchPages, engineId, forms, startDate, endDate
+  };
 
-async function performBingSearch(query: string, apiKey: string, numResults: number) {
-  const response = await fetch(
-    `https://api.bing.microsoft.com/v7.0/search?q=${encodeURIComponent(query)}&count=${numResults}`,
-    {
-      method: 'GET',
-      headers: {
-        'Ocp-Apim-Subscription-Key': apiKey,
-        'Accept': 'application/json',
-      }
+  try {
+    // A bypassed search still refreshes the entry for the next one
+    const cached = bypassCache ? undefined : await readSearchCache(cacheKey);
+    if (cached) {
+      return res.status(200).json({
+        version: API_VERSION,
+        results: cached.results,
+        query,
+        total: cached.results.length,
+        cached: true,
+        cachedAt: cached.cachedAt
+      } satisfies WebsearchResponse);
     }
-  );
 
-  if (!response.ok) {
-    throw new Error(`Bing Search API error: ${response.status} ${response.statusText}`);
-  }
+    const collected = await collectResults(provider, request);
+    const fetched = fetchPages ? await fetchFullPages(collected.results, signal) : collected;
+    const { results } = fetched;
 
-  const data = await response.json();
-  
-  if (data.error) {
-    throw new Error(`Bing Search API error: ${data.error.message}`);
-  }
+    if (signal.aborted) return;
 
-  return data.webPages?.value?.map((item: any) => ({
-    url: item.url,
-    title: item.name,
-    content: item.snippet,
-    snippet: item.snippet
-  })) || [];
+    // A set cut short by a failing page, or holding snippets where a deep
+    // search couldn't read the page, is served but not cached; the cache
+    // would otherwise keep answering the query with less than it asked for
+    if (collected.complete && fetched.complete) {
+      await writeSearchCache(cacheKey, results);
+    }
+    res.status(200).json({
+      version: API_VERSION,
+      results,
+      query,
+      total: results.length,
+      cached: false
+    } satisfies WebsearchResponse);
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error('Search API error:', error);
+    if (error instanceof SearchProviderError) {
+      const retryAfter = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+      if (retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(retryAfter));
+      }
+      return res.status(FAILURE_STATUS[error.reason]).json({
+        error: error.message,
+        reason: error.reason,
+        retryAfter
+      });
+    }
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Search failed',
+      reason: 'failed'
+    });
+  }
 }
 
-async function performSerpApiSearch(query: string, apiKey: string, numResults: number) {
-  const response = await fetch(
-    `https://serpapi.com/search?engine=google&q=${encodeURIComponent(query)}&api_key=${apiKey}&num=${numResults}`,
-    {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      }
+// Deep mode: replace each snippet with the page it came from. A page that
+// can't be fetched keeps its snippet rather than failing the query, and
+// marks the set incomplete
+async function fetchFullPages(
+  results: SearchResultItem[],
+  signal: AbortSignal
+): Promise<{ results: SearchResultItem[]; complete: boolean }> {
+  const pages = [...results];
+  let complete = true;
+  await runWithConcurrency(results, PAGE_FETCH_CONCURRENCY, async (result, index) => {
+    try {
+      const page = await fetchPageContent(result.url, signal);
+      pages[index] = { ...result, ...page, fullText: true };
+    } catch (error) {
+      complete = false;
+      console.warn(`Could not fetch ${result.url}:`, error);
     }
-  );
+  }, signal);
+  return { results: pages, complete };
+}
 
-  if (!response.ok) {
-    throw new Error(`SerpAPI error: ${response.status} ${response.statusText}`);
+// Walks the provider's pages until numResults hits are collected or a page
+// comes back short. A failing later page keeps the hits already collected
+// and marks the set incomplete
+async function collectResults(
+  provider: SearchProvider,
+  request: ProviderSearchRequest
+): Promise<{ results: SearchResultItem[]; complete: boolean }> {
+  if (!provider.pageSize) {
+    return { results: provider.normalize(await guardedSearch(provider, request)), complete: true };
   }
 
-  const data = await response.json();
-  
-  if (data.error) {
-    throw new Error(`SerpAPI error: ${data.error}`);
+  const results: SearchResultItem[] = [];
+  for (let offset = 0; offset < request.numResults; offset += provider.pageSize) {
+    const pageSize = Math.min(provider.pageSize, request.numResults - offset);
+    let page: SearchResultItem[];
+    try {
+      page = provider.normalize(await guardedSearch(provider, { ...request, offset, numResults: pageSize }));
+    } catch (error) {
+      if (offset === 0 || request.signal?.aborted) throw error;
+      console.warn(`${provider.displayName} stopped at result ${offset}:`, error);
+      return { results, complete: false };
+    }
+    results.push(...page);
+    if (page.length < pageSize) break;
   }
-
-  return data.organic_results?.map((item: any) => ({
-    url: item.link,
-    title: item.title,
-    content: item.snippet,
-    snippet: item.snippet
-  })) || [];
-}
\ No newline at end of file
+  return { results, complete: true };
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -6,60 +6,143 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Search, Building, Users, User, Shield, ExternalLink, History, Settings, FileText, TrendingUp, AlertCircle } from 'lucide-react';
-import { WebSearchService } from '@/utils/FirecrawlService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Search, Building, Users, User, Shield, ShieldCheck, Star, ExternalLink, History, Settings, FileText, TrendingUp, AlertCircle, Plus, XCircle } from 'lucide-react';
+import { ABCPResult, CSEProfile, SearchProgress, SkippedQuery, WebSearchService } from '@/utils/FirecrawlService';
+import { findProviderDescriptor, SEARCH_FAILURE_LABELS, SearchProviderDescriptor } from '@/utils/SearchProviders';
 import { SearchHistory } from '@/components/SearchHistory';
-import { FileUpload } from '@/components/FileUpload';
+import { FileUpload, FileAnalysis } from '@/components/FileUpload';
+import { EntityBadge } from '@/components/EntityBadge';
+import { describeFacility } from '@/utils/FacilityParser';
+import { ENHANCEMENT_FORM_LABELS, ENHANCEMENT_SCOPE_LABELS, issuerKey, mergeExtractions } from '@/utils/ABCPExtractor';
+import { formatRating } from '@/utils/RatingParser';
 import { useToast } from '@/components/ui/use-toast';
 
-interface ABCPResult {
-  issuer: string;
-  liquidityProviders: string[];
-  administrator?: string;
-  sponsor?: string;
-  confidence: number;
-  source: string;
-}
-
 interface ABCPSearchFormProps {
   onReset: () => void;
+  onManageProviders: () => void;
 }
 
-export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+const DEPTH_OPTIONS = [5, 10, 20, 30, 50];
+
+// Documents are grouped by their issuer (typed for the upload, or named in
+// the document), so a data room of prospectuses and rating reports shows up
+// as one result per program
+function combineDocumentResults(documents: FileAnalysis[]): ABCPResult[] {
+  const groups = new Map<string, FileAnalysis[]>();
+  for (const document of documents) {
+    if (!document.abcpInfo) continue;
+    const key = document.abcpInfo.issuer ? issuerKey(document.abcpInfo.issuer) : `file:${document.fileName}`;
+    groups.set(key, [...(groups.get(key) ?? []), document]);
+  }
+
+  return Array.from(groups.values()).flatMap(group => {
+    const merged = mergeExtractions(group.map(document => document.abcpInfo!));
+    if (!merged) return [];
+    return [{
+      ...merged,
+      issuer: merged.issuer ?? group[0].fileName,
+      source: `PDF: ${group.map(document => document.fileName).join(', ')}`
+    }];
+  });
+}
+
+export const ABCPSearchForm = ({ onReset, onManageProviders }: ABCPSearchFormProps) => {
   const [issuerName, setIssuerName] = useState('');
   const [isSearching, setIsSearching] = useState(false);
-  const [searchProgress, setSearchProgress] = useState(0);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress>({ completed: 0, total: 0 });
+  const [concurrency, setConcurrency] = useState(() => WebSearchService.getConcurrency());
+  const [depth, setDepth] = useState(() => WebSearchService.getSearchDepth());
+  const [coverage, setCoverage] = useState<{ examined: number; withFindings: number } | null>(null);
+  const [skippedQueries, setSkippedQueries] = useState<SkippedQuery[]>([]);
+  const searchControllerRef = useRef<AbortController | null>(null);
+  // Web search results; findings from uploaded documents are kept apart so a
+  // new search doesn't drop them and a new upload doesn't drop the search
   const [results, setResults] = useState<ABCPResult[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
-  const [fileAnalysis, setFileAnalysis] = useState<any>(null);
+  const [documents, setDocuments] = useState<FileAnalysis[]>([]);
+  const [enabledProviders, setEnabledProviders] = useState<SearchProviderDescriptor[]>([]);
+  const [providerNames, setProviderNames] = useState<Record<string, string>>({});
+  const [cseProfiles, setCseProfiles] = useState<CSEProfile[]>([]);
+  const [cseProfileId, setCseProfileId] = useState(() => WebSearchService.getDefaultCSEProfile()?.id);
+  const [searchProfiles, setSearchProfiles] = useState(() => WebSearchService.getSearchProfiles());
+  const [activeProfileId, setActiveProfileId] = useState(() => WebSearchService.getActiveProfile().id);
+  const [deepMode, setDeepMode] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
   const { toast } = useToast();
   const webSearchService = WebSearchService.getInstance();
 
+  // Providers come from the active search profile, and profiles can be
+  // switched, renamed or given other keys here or in another tab, so the
+  // header and the provider list follow every change instead of the mount
+  useEffect(() => {
+    const loadProviders = () => {
+      WebSearchService.getProviders().then(providers => {
+        const enabled = WebSearchService.getEnabledProviders()
+          .map(providerId => findProviderDescriptor(providers, providerId))
+          .filter((provider): provider is SearchProviderDescriptor => !!provider);
+        setEnabledProviders(enabled);
+        setProviderNames(Object.fromEntries(providers.map(provider => [provider.id, provider.displayName])));
+        setCseProfiles(enabled.some(provider => provider.usesEngineProfiles) ? WebSearchService.getCSEProfiles() : []);
+      });
+    };
+
+    loadProviders();
+    return WebSearchService.onSearchProfilesChange(() => {
+      setSearchProfiles(WebSearchService.getSearchProfiles());
+      setActiveProfileId(WebSearchService.getActiveProfile().id);
+      setDepth(WebSearchService.getSearchDepth());
+      loadProviders();
+    });
+  }, []);
+
+  const handleProfileChange = (profileId: string) => {
+    WebSearchService.setActiveProfile(profileId);
+    // A profile without keys goes straight to provider setup
+    if (!WebSearchService.isConfigured()) {
+      onManageProviders();
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!issuerName.trim()) return;
 
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
     try {
       setIsSearching(true);
       setError(null);
       setResults([]);
-      setSearchProgress(0);
+      setSkippedQueries([]);
+      setCoverage(null);
+      setSearchProgress({ completed: 0, total: 0 });
 
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setSearchProgress(prev => Math.min(prev + 10, 90));
-      }, 300);
-
-      const searchResults = await webSearchService.searchABCPLiquidityProviders(issuerName.trim());
-      
-      clearInterval(progressInterval);
-      setSearchProgress(100);
+      const outcome = await webSearchService.searchABCPLiquidityProviders(issuerName.trim(), {
+        cseProfileId,
+        deep: deepMode,
+        bypassCache,
+        concurrency,
+        depth,
+        signal: controller.signal,
+        onProgress: setSearchProgress
+      });
       
-      setResults(searchResults);
+      setResults(outcome.results);
+      setSkippedQueries(outcome.skipped);
+      setCoverage({ examined: outcome.resultsExamined, withFindings: outcome.resultsWithFindings });
+      const skippedNote = (outcome.queriesCached > 0 ? `, ${outcome.queriesCached} queries from cache` : '')
+        + (outcome.skipped.length > 0 ? `, ${outcome.skipped.length} queries skipped` : '');
       toast({
-        title: "Search completed",
-        description: `Found ${searchResults.length} result(s) for "${issuerName}"`,
+        title: outcome.cancelled ? "Search cancelled" : "Search completed",
+        description: outcome.cancelled
+          ? `Kept ${outcome.results.length} result(s) from ${outcome.queriesCompleted} of ${outcome.queriesTotal} queries${skippedNote}`
+          : `Found ${outcome.results.length} result(s) for "${issuerName}"${skippedNote}`,
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
@@ -70,27 +153,43 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
         variant: "destructive",
       });
     } finally {
+      searchControllerRef.current = null;
       setIsSearching(false);
-      setSearchProgress(0);
+      setSearchProgress({ completed: 0, total: 0 });
     }
   };
 
+  const handleCancel = () => {
+    searchControllerRef.current?.abort();
+  };
+
+  const handleConcurrencyChange = (value: string) => {
+    const limit = parseInt(value, 10);
+    setConcurrency(limit);
+    WebSearchService.setConcurrency(limit);
+  };
+
+  const handleDepthChange = (value: string) => {
+    const resultsPerQuery = parseInt(value, 10);
+    setDepth(resultsPerQuery);
+    WebSearchService.setSearchDepth(resultsPerQuery);
+  };
+
+  // Only the active profile is reset; other profiles keep their providers
   const handleReset = () => {
-    localStorage.removeItem('web_search_api_key');
-    localStorage.removeItem('selected_search_api');
+    WebSearchService.clearCredentials();
     onReset();
   };
 
-  const handleFileAnalyzed = (analysis: any) => {
-    setFileAnalysis(analysis);
-    if (analysis.abcpInfo) {
-      setResults([{
-        ...analysis.abcpInfo,
-        source: `PDF: ${analysis.fileName}`
-      }]);
-    }
+  // The upload queue reports each document as it finishes, possibly from a
+  // stale render, so documents are appended functionally
+  const handleFileAnalyzed = (analysis: FileAnalysis) => {
+    setDocuments(prev => [...prev, analysis]);
   };
 
+  const documentResults = useMemo(() => combineDocumentResults(documents), [documents]);
+  const shownResults = [...documentResults, ...results];
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.7) return 'bg-green-100 text-green-800';
     if (confidence >= 0.4) return 'bg-yellow-100 text-yellow-800';
@@ -108,6 +207,18 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
           </p>
         </div>
         <div className="flex gap-2">
+          {searchProfiles.length > 1 && (
+            <Select value={activeProfileId} onValueChange={handleProfileChange} disabled={isSearching}>
+              <SelectTrigger className="h-9 w-40">
+                <SelectValue placeholder="Search profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {searchProfiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -116,13 +227,21 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
             <History className="mr-2 h-4 w-4" />
             {showHistory ? 'Hide' : 'Show'} History
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onManageProviders}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Provider
+          </Button>
           <Button
             variant="outline"
             size="sm"
             onClick={handleReset}
           >
             <Settings className="mr-2 h-4 w-4" />
-            Reset API ({WebSearchService.getSelectedApi().toUpperCase()})
+            Reset API ({enabledProviders.map(provider => provider.id.toUpperCase()).join(' + ')})
           </Button>
         </div>
       </div>
@@ -158,6 +277,27 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                     <AlertDescription>{error}</AlertDescription>
                   </Alert>
                 )}
+
+                {skippedQueries.length > 0 && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      <p className="font-medium mb-1">
+                        {skippedQueries.length} of the queries returned nothing because their provider failed:
+                      </p>
+                      <ul className="space-y-1 text-sm">
+                        {skippedQueries.map((skipped, index) => (
+                          <li key={index}>
+                            <span className="font-medium">{skipped.provider}</span>
+                            {' · '}{SEARCH_FAILURE_LABELS[skipped.reason]}
+                            <span className="text-muted-foreground"> ({skipped.message})</span>
+                            <div className="text-xs text-muted-foreground truncate">{skipped.query}</div>
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 
                 <div className="flex gap-4">
                   <Input
@@ -167,6 +307,25 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                     className="flex-1"
                     disabled={isSearching}
                   />
+                  {cseProfiles.length > 1 && (
+                    <Select
+                      value={cseProfileId}
+                      onValueChange={(value) => {
+                        setCseProfileId(value);
+                        WebSearchService.setDefaultCSEProfile(value);
+                      }}
+                      disabled={isSearching}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Search engine" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {cseProfiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   <Button type="submit" disabled={isSearching || !issuerName.trim()}>
                     {isSearching ? (
                       <>
@@ -180,15 +339,71 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                       </>
                     )}
                   </Button>
+                  {isSearching && (
+                    <Button type="button" variant="outline" onClick={handleCancel}>
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  )}
                 </div>
+
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                  <div className="flex items-center gap-2">
+                    <Switch id="deep-mode" checked={deepMode} onCheckedChange={setDeepMode} disabled={isSearching} />
+                    <Label htmlFor="deep-mode" className="text-sm text-muted-foreground">
+                      Deep mode: download each hit and analyze the full page or PDF (slower)
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch id="bypass-cache" checked={bypassCache} onCheckedChange={setBypassCache} disabled={isSearching} />
+                    <Label htmlFor="bypass-cache" className="text-sm text-muted-foreground">
+                      Bypass cache
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="concurrency" className="text-sm text-muted-foreground">Parallel queries</Label>
+                    <Select value={String(concurrency)} onValueChange={handleConcurrencyChange} disabled={isSearching}>
+                      <SelectTrigger id="concurrency" className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONCURRENCY_OPTIONS.map(option => (
+                          <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="depth" className="text-sm text-muted-foreground">Results per query</Label>
+                    <Select value={String(depth)} onValueChange={handleDepthChange} disabled={isSearching}>
+                      <SelectTrigger id="depth" className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEPTH_OPTIONS.map(option => (
+                          <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {coverage && !isSearching && (
+                  <p className="text-sm text-muted-foreground">
+                    Looked at {coverage.examined} result{coverage.examined === 1 ? '' : 's'}, {coverage.withFindings} with findings
+                  </p>
+                )}
                 
                 {isSearching && (
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm text-muted-foreground">
                       <span>Searching financial websites and rating agencies...</span>
-                      <span>{searchProgress}%</span>
+                      <span>{searchProgress.completed} of {searchProgress.total} queries</span>
                     </div>
-                    <Progress value={searchProgress} className="w-full" />
+                    <Progress
+                      value={searchProgress.total > 0 ? (searchProgress.completed / searchProgress.total) * 100 : 0}
+                      className="w-full"
+                    />
                   </div>
                 )}
               </form>
@@ -199,21 +414,29 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
         <TabsContent value="document" className="space-y-4">
           <FileUpload onFileAnalyzed={handleFileAnalyzed} />
           
-          {fileAnalysis && (
+          {documents.length > 0 && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-5 w-5" />
-                  Analysis Results: {fileAnalysis.fileName}
+                  Analyzed Documents ({documents.length})
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="bg-muted/50 p-4 rounded-lg">
-                  <h4 className="font-semibold mb-2">Extracted Content Preview:</h4>
-                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                    {fileAnalysis.content.substring(0, 500)}...
-                  </p>
-                </div>
+                {documents.map((document, index) => {
+                  const ocrPageCount = document.pages.filter(page => page.source === 'ocr').length;
+                  return (
+                    <div key={index} className="bg-muted/50 p-4 rounded-lg">
+                      <h4 className="font-semibold mb-2">
+                        {document.fileName} ({document.pageCount} page{document.pageCount === 1 ? '' : 's'}
+                        {ocrPageCount > 0 && `, ${ocrPageCount} read by OCR`}):
+                      </h4>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {document.content.substring(0, 300)}...
+                      </p>
+                    </div>
+                  );
+                })}
               </CardContent>
             </Card>
           )}
@@ -222,14 +445,14 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
 
       {/* Results Section */}
 
-      {results.length > 0 && (
+      {shownResults.length > 0 && (
         <div className="space-y-4">
           <h3 className="text-lg font-semibold flex items-center gap-2">
             <Building className="h-5 w-5" />
-            Search Results ({results.length})
+            Search Results ({shownResults.length})
           </h3>
           
-          {results.map((result, index) => (
+          {shownResults.map((result, index) => (
             <Card key={index} className="border-l-4 border-l-primary">
               <CardHeader>
                 <div className="flex items-start justify-between">
@@ -239,16 +462,38 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                       <Badge className={getConfidenceColor(result.confidence)}>
                         {Math.round(result.confidence * 100)}% confidence
                       </Badge>
+                      {result.ratings.filter(rating => !rating.subjectId).map((rating, idx) => (
+                        <Badge key={idx} variant="outline" title={rating.evidence.sentence}>
+                          {formatRating(rating)}
+                        </Badge>
+                      ))}
+                      {result.providers && result.providers.length > 0 && (
+                        <Badge variant="outline" className="text-xs">
+                          Found by {result.providers.map(providerId => providerNames[providerId] ?? providerId).join(', ')}
+                        </Badge>
+                      )}
+                      {result.filing && (
+                        <Badge variant="secondary" title={`Accession ${result.filing.accessionNumber}`}>
+                          {result.filing.formType} · {result.filing.filer} · CIK {result.filing.cik} · {result.filing.filingDate}
+                        </Badge>
+                      )}
                     </CardDescription>
                   </div>
-                  <a 
-                    href={result.source} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1"
-                  >
-                    Source <ExternalLink className="h-3 w-3" />
-                  </a>
+                  {result.source.startsWith('PDF: ') ? (
+                    <span className="text-sm text-muted-foreground flex items-center gap-1 max-w-xs text-right">
+                      <FileText className="h-3 w-3 shrink-0" />
+                      {result.source.slice('PDF: '.length)}
+                    </span>
+                  ) : (
+                    <a 
+                      href={result.source} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1"
+                    >
+                      Source <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -258,10 +503,53 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                       <Users className="h-4 w-4 text-primary" />
                       <h4 className="font-semibold">Liquidity Providers</h4>
                     </div>
-                    <div className="flex flex-wrap gap-2">
+                    <div className="space-y-2">
                       {result.liquidityProviders.map((provider, idx) => (
-                        <Badge key={idx} variant="secondary">
-                          {provider}
+                        <div key={idx} className="flex flex-wrap items-center gap-2">
+                          <EntityBadge entity={provider} />
+                          {provider.facility && (
+                            <span className="text-sm text-muted-foreground">
+                              {describeFacility(provider.facility)}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {result.creditEnhancementProviders.length > 0 && (
+                  <div>
+                    <div className="flex items-center gap-2 mb-2">
+                      <ShieldCheck className="h-4 w-4 text-primary" />
+                      <h4 className="font-semibold">Credit Enhancement</h4>
+                    </div>
+                    <div className="space-y-2">
+                      {result.creditEnhancementProviders.map((enhancer, idx) => (
+                        <div key={idx} className="flex flex-wrap items-center gap-2">
+                          <EntityBadge entity={enhancer} />
+                          <span className="text-sm text-muted-foreground">
+                            {[
+                              ENHANCEMENT_SCOPE_LABELS[enhancer.scope],
+                              enhancer.form ? ENHANCEMENT_FORM_LABELS[enhancer.form] : null
+                            ].filter(Boolean).join(' · ')}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {result.ratings.some(rating => rating.subjectId) && (
+                  <div>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Star className="h-4 w-4 text-primary" />
+                      <h4 className="font-semibold">Provider Ratings</h4>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {result.ratings.filter(rating => rating.subjectId).map((rating, idx) => (
+                        <Badge key={idx} variant="secondary" title={rating.evidence.sentence}>
+                          {rating.subjectName}: {formatRating(rating)}
                         </Badge>
                       ))}
                     </div>
@@ -274,7 +562,7 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                       <User className="h-4 w-4 text-primary" />
                       <h4 className="font-semibold">Administrator</h4>
                     </div>
-                    <Badge variant="outline">{result.administrator}</Badge>
+                    <EntityBadge entity={result.administrator} variant="outline" />
                   </div>
                 )}
                 
@@ -284,7 +572,7 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
                       <Shield className="h-4 w-4 text-primary" />
                       <h4 className="font-semibold">Sponsor</h4>
                     </div>
-                    <Badge variant="outline">{result.sponsor}</Badge>
+                    <EntityBadge entity={result.sponsor} variant="outline" />
                   </div>
                 )}
               </CardContent>
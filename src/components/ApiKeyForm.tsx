@@ -1,35 +1,203 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Key, AlertCircle, Globe } from 'lucide-react';
-import { WebSearchService } from '@/utils/FirecrawlService';
+import { Key, AlertCircle, Globe, Plus, Trash2, Lock, CheckCircle2 } from 'lucide-react';
+import { CredentialStorage, CSEProfile, ProviderCredentials, WebSearchService } from '@/utils/FirecrawlService';
+import { SearchProfileEditor } from '@/components/SearchProfileEditor';
+import { BUILTIN_SEARCH_PROVIDERS, CREDENTIAL_STATUS_LABELS, CredentialCheckResult, CredentialSummary, findProviderDescriptor, isValidEngineId, missingCredentials, QuotaInfo, SearchProviderDescriptor, UNVERIFIED_CREDENTIAL_STATUSES } from '@/utils/SearchProviders';
+import { useToast } from '@/components/ui/use-toast';
 
 interface ApiKeyFormProps {
   onApiKeySet: () => void;
 }
 
+function formatQuota(quota: QuotaInfo): string {
+  const limit = quota.limit !== undefined ? ` of ${quota.limit.toLocaleString()}` : '';
+  const resets = quota.resetsAt ? `, resets ${new Date(quota.resetsAt).toLocaleDateString()}` : '';
+  return `${quota.remaining.toLocaleString()}${limit} ${quota.unit} left${resets}`;
+}
+
+function createProfile(name: string): CSEProfile {
+  return { id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6), name, engineId: '' };
+}
+
 export const ApiKeyForm = ({ onApiKeySet }: ApiKeyFormProps) => {
-  const [apiKey, setApiKey] = useState('');
+  const [providers, setProviders] = useState<SearchProviderDescriptor[]>(BUILTIN_SEARCH_PROVIDERS);
   const [selectedApi, setSelectedApi] = useState('google');
+  const [credentials, setCredentials] = useState<ProviderCredentials>({});
+  const [label, setLabel] = useState('');
+  const [storedCredentials, setStoredCredentials] = useState<CredentialSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  // Result of the last test call; cleared whenever the key or engine ID changes
+  const [check, setCheck] = useState<CredentialCheckResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [credentialStorage, setCredentialStorage] = useState<CredentialStorage>('vault');
+  const [cseProfiles, setCseProfiles] = useState<CSEProfile[]>(() => {
+    const stored = WebSearchService.getCSEProfiles();
+    return stored.length > 0 ? stored : [createProfile('Default')];
+  });
+  const [enabledProviders, setEnabledProviders] = useState(() => WebSearchService.getEnabledProviders());
   const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    WebSearchService.getProviders().then(setProviders);
+    WebSearchService.getCredentialStorage().then(setCredentialStorage).catch(() => undefined);
+    WebSearchService.listCredentials()
+      .then(setStoredCredentials)
+      .catch(error => setError(`Could not load stored credentials: ${error.message}`));
+  }, []);
+
+  const webProviders = providers.filter(provider => provider.kind === 'web');
+  const provider = findProviderDescriptor(providers, selectedApi);
+  const isComplete = !!provider && missingCredentials(provider, credentials).length === 0;
+
+  // Only providers searching with a stored credential count as configured
+  const activeProviders = enabledProviders.filter(providerId => WebSearchService.getProviderCredential(providerId) !== undefined);
+
+  const selectProvider = (providerId: string) => {
+    setSelectedApi(providerId);
+    setCredentials({});
+    setCheck(null);
+    setError(null);
+  };
+
+  const updateCredential = (fieldId: string, value: string) => {
+    setCredentials(prev => ({ ...prev, [fieldId]: value }));
+    setCheck(null);
+  };
+
+  const trimmedCredentials = () =>
+    Object.fromEntries(Object.entries(credentials).map(([field, value]) => [field, value.trim()]));
+
+  // Google keys are tested against the first engine profile
+  const checkCredentials = async (): Promise<CredentialCheckResult> => {
+    const engineId = provider?.usesEngineProfiles ? cseProfiles[0]?.engineId.trim() : undefined;
+    const result = await WebSearchService.validateCredentials(selectedApi, trimmedCredentials(), engineId);
+    setCheck(result);
+    return result;
+  };
+
+  const handleTest = async () => {
+    setError(null);
+    try {
+      setIsChecking(true);
+      await checkCredentials();
+    } catch (error) {
+      setError(`Could not test the key: ${error instanceof Error ? error.message : 'please try again'}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const removeProvider = (providerId: string) => {
+    const remaining = enabledProviders.filter(candidate => candidate !== providerId);
+    WebSearchService.setEnabledProviders(remaining);
+    setEnabledProviders(remaining);
+  };
+
+  const selectCredential = (credential: CredentialSummary) => {
+    WebSearchService.setProviderCredential(credential.provider, credential.id);
+    // A new array either way, so the list re-renders with the new selection
+    const enabled = [...enabledProviders.filter(providerId => providerId !== credential.provider), credential.provider];
+    WebSearchService.setEnabledProviders(enabled);
+    setEnabledProviders(enabled);
+  };
+
+  const deleteCredential = async (credential: CredentialSummary) => {
+    try {
+      await WebSearchService.deleteCredential(credential.id);
+      setStoredCredentials(prev => prev.filter(candidate => candidate.id !== credential.id));
+      if (WebSearchService.getProviderCredential(credential.provider) === undefined) {
+        removeProvider(credential.provider);
+      }
+    } catch (error) {
+      setError(`Could not delete credential: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const isInUse = (credential: CredentialSummary) =>
+    activeProviders.includes(credential.provider) &&
+    WebSearchService.getProviderCredential(credential.provider) === credential.id;
+
+  const updateProfile = (id: string, update: Partial<CSEProfile>) => {
+    setCseProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, ...update } : profile)));
+    setCheck(null);
+  };
+
+  const validateProfiles = (): string | null => {
+    const names = new Set<string>();
+    for (const profile of cseProfiles) {
+      const name = profile.name.trim();
+      if (!name) return 'Every search engine profile needs a name';
+      if (names.has(name.toLowerCase())) return `Profile name "${name}" is used more than once`;
+      names.add(name.toLowerCase());
+      if (!isValidEngineId(profile.engineId)) return `Enter a valid Search Engine ID for "${name}"`;
+    }
+    return null;
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!apiKey.trim()) {
-      setError('Please enter a valid API key');
+    if (!provider) return;
+
+    const missing = missingCredentials(provider, credentials);
+    if (missing.length > 0) {
+      setError(`Please enter a valid ${missing[0].label}`);
       return;
     }
 
+    if (provider.usesEngineProfiles) {
+      const profileError = validateProfiles();
+      if (profileError) {
+        setError(profileError);
+        return;
+      }
+    }
+
     try {
-      // Set the API key and selected API
-      WebSearchService.setApiKey(apiKey.trim());
-      WebSearchService.setSelectedApi(selectedApi);
+      setIsSaving(true);
+      // A key is only saved once a test call has accepted it, or, when the
+      // test couldn't reach the provider, once the user chooses to save it anyway
+      const result = check ?? await checkCredentials();
+      const unverified = UNVERIFIED_CREDENTIAL_STATUSES.includes(result.status);
+      if (unverified && !window.confirm(`${provider.displayName} could not be reached to test the key (${result.message}). Save it anyway?`)) {
+        return;
+      }
+      if (result.status !== 'valid' && !unverified) {
+        setError(`${CREDENTIAL_STATUS_LABELS[result.status]}: ${result.message}`);
+        return;
+      }
+
+      // The key goes to the server-side vault; the browser keeps its ID and
+      // the active profile starts searching with it
+      const credential = await WebSearchService.saveCredential(selectedApi, label.trim(), trimmedCredentials());
+      setStoredCredentials(prev => [...prev, credential]);
+      if (provider.usesEngineProfiles) {
+        const profiles = cseProfiles.map(profile => ({
+          ...profile,
+          name: profile.name.trim(),
+          engineId: profile.engineId.trim(),
+        }));
+        WebSearchService.setCSEProfiles(profiles);
+        if (!profiles.some(profile => profile.id === WebSearchService.getDefaultCSEProfile()?.id)) {
+          WebSearchService.setDefaultCSEProfile(profiles[0].id);
+        }
+      }
+      // Saving leaves this form, so the test call's quota goes with the toast,
+      // which stays up on the search screen
+      toast({
+        title: `${provider.displayName} key saved`,
+        description: result.quota ? formatQuota(result.quota) : unverified ? `Not tested: ${result.message}` : result.message,
+      });
       onApiKeySet();
     } catch (error) {
-      setError('Failed to set API key. Please try again.');
+      setError(`Failed to store the credential: ${error instanceof Error ? error.message : 'please try again'}`);
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -39,9 +207,9 @@ export const ApiKeyForm = ({ onApiKeySet }: ApiKeyFormProps) => {
         <div className="mx-auto mb-4 w-12 h-12 bg-primary rounded-full flex items-center justify-center">
           <Key className="h-6 w-6 text-primary-foreground" />
         </div>
-        <CardTitle>Setup ABCP Intelligence Search</CardTitle>
+        <CardTitle>Search Provider Credentials</CardTitle>
         <CardDescription>
-          Choose your preferred search API and enter the API key to search financial websites and rating agencies for ABCP liquidity provider information.
+          Store API keys for the search providers used to search financial websites and rating agencies for ABCP liquidity provider information.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -52,42 +220,161 @@ export const ApiKeyForm = ({ onApiKeySet }: ApiKeyFormProps) => {
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
+
+          <SearchProfileEditor onProfileChange={profile => setEnabledProviders(Object.keys(profile.credentials))} />
           
+          {storedCredentials.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">
+                Stored Credentials
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Keys are encrypted {credentialStorage === 'local' ? 'in this browser' : 'on the server'}; queries go to every provider in use and hits are merged by URL.
+              </p>
+              {storedCredentials.map(credential => (
+                <div key={credential.id} className="flex items-center justify-between gap-2 text-sm p-2 bg-muted/50 rounded">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{credential.label}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {findProviderDescriptor(providers, credential.provider)?.displayName ?? credential.provider}
+                      {' · '}{Object.values(credential.hints).join(' ')}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {isInUse(credential) ? (
+                      <Button type="button" variant="outline" size="sm" onClick={() => removeProvider(credential.provider)}>
+                        In use
+                      </Button>
+                    ) : (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => selectCredential(credential)}>
+                        Use
+                      </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="icon" onClick={() => deleteCredential(credential)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {activeProviders.length > 0 && (
+                <Button type="button" variant="secondary" className="w-full" onClick={onApiKeySet}>
+                  Continue with {activeProviders.length} provider{activeProviders.length === 1 ? '' : 's'}
+                </Button>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <label htmlFor="apiSelection" className="text-sm font-medium">
               Search API Provider
             </label>
-            <Select value={selectedApi} onValueChange={setSelectedApi}>
+            <Select value={selectedApi} onValueChange={selectProvider}>
               <SelectTrigger>
                 <SelectValue placeholder="Select API provider" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="google">Google Custom Search API</SelectItem>
-                <SelectItem value="bing">Bing Web Search API</SelectItem>
-                <SelectItem value="serpapi">SerpAPI</SelectItem>
-                <SelectItem value="firecrawl">Firecrawl API</SelectItem>
+                {webProviders.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{candidate.displayName}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
           <div className="space-y-2">
-            <label htmlFor="apiKey" className="text-sm font-medium">
-              API Key
+            <label htmlFor="credential-label" className="text-sm font-medium">
+              Name
             </label>
             <Input
-              id="apiKey"
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder={`Enter your ${selectedApi.charAt(0).toUpperCase() + selectedApi.slice(1)} API key`}
-              required
+              id="credential-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={`e.g. Team ${provider?.displayName ?? 'search'} key`}
             />
           </div>
+
+          {provider?.credentials.map(field => (
+            <div key={field.id} className="space-y-2">
+              <label htmlFor={`credential-${field.id}`} className="text-sm font-medium">
+                {field.label}
+              </label>
+              <Input
+                id={`credential-${field.id}`}
+                type={field.secret ? 'password' : 'text'}
+                value={credentials[field.id] ?? ''}
+                onChange={(e) => updateCredential(field.id, e.target.value)}
+                placeholder={field.placeholder ?? `Enter your ${provider.displayName} ${field.label}`}
+                required
+              />
+            </div>
+          ))}
+
+          {provider?.usesEngineProfiles && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">
+                Search Engine Profiles
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Each profile is a Programmable Search Engine ID (cx); pick one per search, e.g. "Filings only" or "News".
+              </p>
+              {cseProfiles.map(profile => (
+                <div key={profile.id} className="flex gap-2">
+                  <Input
+                    value={profile.name}
+                    onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                    placeholder="Profile name"
+                    className="w-1/3"
+                  />
+                  <Input
+                    value={profile.engineId}
+                    onChange={(e) => updateProfile(profile.id, { engineId: e.target.value })}
+                    placeholder="Search Engine ID"
+                    className="flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setCseProfiles(prev => prev.filter(candidate => candidate.id !== profile.id));
+                      setCheck(null);
+                    }}
+                    disabled={cseProfiles.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setCseProfiles(prev => [...prev, createProfile('')])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Profile
+              </Button>
+            </div>
+          )}
           
-          <Button type="submit" className="w-full" disabled={!apiKey.trim()}>
-            <Globe className="mr-2 h-4 w-4" />
-            Setup {selectedApi.charAt(0).toUpperCase() + selectedApi.slice(1)} Search
-          </Button>
+          {check && (
+            <Alert variant={check.status === 'valid' ? 'default' : 'destructive'}>
+              {check.status === 'valid' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+              <AlertDescription>
+                <span className="font-medium">{CREDENTIAL_STATUS_LABELS[check.status]}</span>: {check.message}
+                {check.quota && <div className="text-xs mt-1">{formatQuota(check.quota)}</div>}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleTest} disabled={!isComplete || isChecking || isSaving}>
+              {isChecking ? 'Testing...' : 'Test Key'}
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!isComplete || isSaving || isChecking}>
+              <Globe className="mr-2 h-4 w-4" />
+              {isSaving ? 'Checking and storing...' : `${storedCredentials.length > 0 ? 'Add' : 'Setup'} ${provider?.displayName ?? selectedApi} Search`}
+            </Button>
+          </div>
         </form>
         
         <div className="mt-4 text-xs text-muted-foreground space-y-2">
@@ -95,13 +382,18 @@ export const ApiKeyForm = ({ onApiKeySet }: ApiKeyFormProps) => {
             <p><strong>Real API Setup Instructions:</strong></p>
           </div>
           <div className="space-y-1">
-            <p>• <strong>Google:</strong> Get API key + Custom Search Engine ID from Google Cloud Console</p>
-            <p>• <strong>Bing:</strong> Get subscription key from Azure Cognitive Services</p>
-            <p>• <strong>SerpAPI:</strong> Get API key from serpapi.com (easiest to set up)</p>
-            <p>• <strong>Firecrawl:</strong> Get API key from firecrawl.dev</p>
+            {webProviders.filter(candidate => candidate.setupHint).map(candidate => (
+              <p key={candidate.id}>• <strong>{candidate.displayName}:</strong> {candidate.setupHint}</p>
+            ))}
           </div>
           <div className="text-center pt-2 border-t">
             <p className="text-amber-600"><strong>Note:</strong> Real API keys required for live internet search</p>
+            <p className="flex items-center justify-center gap-1 mt-1">
+              <Lock className="h-3 w-3" />
+              {credentialStorage === 'local'
+                ? 'Keys are encrypted in this browser with your passphrase'
+                : 'Keys are encrypted at rest on the server and never sent back to the browser'}
+            </p>
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,41 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ExtractedEntity } from '@/utils/ABCPExtractor';
+
+interface EntityBadgeProps {
+  entity: ExtractedEntity;
+  variant?: 'default' | 'secondary' | 'outline';
+  className?: string;
+}
+
+export const EntityBadge = ({ entity, variant = 'secondary', className }: EntityBadgeProps) => {
+  const { evidence } = entity;
+
+  // Entries migrated from old history have no evidence to show
+  if (!evidence.sentence) {
+    return <Badge variant={variant} className={className}>{entity.displayName}</Badge>;
+  }
+
+  const location = [
+    evidence.page !== undefined ? `Page ${evidence.page}` : null,
+    evidence.offset !== undefined ? `offset ${evidence.offset}` : null
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant={variant} className={`cursor-help ${className ?? ''}`}>
+          {entity.displayName}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-md space-y-1">
+        <p className="text-sm">&ldquo;{evidence.sentence}&rdquo;</p>
+        {entity.name !== entity.displayName && (
+          <p className="text-xs text-muted-foreground">Matched as &ldquo;{entity.name}&rdquo;</p>
+        )}
+        {location && <p className="text-xs text-muted-foreground">{location}</p>}
+        <p className="text-xs text-muted-foreground font-mono break-all">{evidence.pattern}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -1,88 +1,162 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Upload, FileText, Loader2, AlertCircle } from 'lucide-react';
+import { Upload, FileText, Loader2, AlertCircle, CheckCircle2, XCircle, Clock } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { apiClient } from '@/utils/ApiClient';
+import type { DocumentAnalysis } from '@/utils/ApiContracts';
 
 interface FileUploadProps {
-  onFileAnalyzed: (analysis: any) => void;
+  onFileAnalyzed: (analysis: FileAnalysis) => void;
 }
 
-interface FileAnalysis {
-  fileName: string;
-  content: string;
-  abcpInfo: {
-    issuer?: string;
-    liquidityProviders: string[];
-    administrator?: string;
-    sponsor?: string;
-    confidence: number;
-  } | null;
+// One analyzed document, as /api/analyze-pdf returns it
+export type FileAnalysis = DocumentAnalysis;
+
+type QueueStatus = 'queued' | 'analyzing' | 'done' | 'failed';
+
+interface QueueItem {
+  id: string;
+  file: File;
+  issuer: string;
+  status: QueueStatus;
+  providerCount?: number;
+  error?: string;
 }
 
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB limit
+
+const STATUS_ICONS: Record<QueueStatus, JSX.Element> = {
+  queued: <Clock className="h-4 w-4 text-muted-foreground" />,
+  analyzing: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  done: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
 export const FileUpload = ({ onFileAnalyzed }: FileUploadProps) => {
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [issuer, setIssuer] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
-      setError('Please select a PDF file');
-      return;
-    }
+  // Items waiting for the server, in order. Kept outside state so the
+  // processor started by one enqueue sees files added by later ones
+  const pendingRef = useRef<QueueItem[]>([]);
+  const isProcessingRef = useRef(false);
+  // Results go to the latest callback, not the one from when the file was added
+  const onFileAnalyzedRef = useRef(onFileAnalyzed);
+  useEffect(() => {
+    onFileAnalyzedRef.current = onFileAnalyzed;
+  });
 
-    if (file.size > 20 * 1024 * 1024) { // 20MB limit
-      setError('File size must be less than 20MB');
-      return;
-    }
+  const updateItem = (id: string, update: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+  };
 
-    setIsAnalyzing(true);
-    setError(null);
+  const analyzeItem = async (item: QueueItem) => {
+    updateItem(item.id, { status: 'analyzing' });
 
     try {
       // Create FormData to send the file
       const formData = new FormData();
-      formData.append('file', file);
-
-      const response = await fetch('/api/analyze-pdf', {
-        method: 'POST',
-        body: formData
-      });
+      formData.append('file', item.file);
+      if (item.issuer) {
+        formData.append('issuer', item.issuer);
+      }
 
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
+      const { documents } = await apiClient.analyzePdf(formData);
+      const analysis = documents[0];
+      if (!analysis) {
+        throw new Error('No analysis returned');
+      }
+      if ('error' in analysis) {
+        throw new Error(analysis.error);
       }
 
-      const analysis: FileAnalysis = await response.json();
-      
-      onFileAnalyzed(analysis);
-      
-      toast({
-        title: "File analyzed successfully",
-        description: `Found ${analysis.abcpInfo?.liquidityProviders.length || 0} potential liquidity providers`,
+      updateItem(item.id, {
+        status: 'done',
+        issuer: analysis.abcpInfo?.issuer ?? item.issuer,
+        providerCount: analysis.abcpInfo?.liquidityProviders.length ?? 0,
       });
-
+      onFileAnalyzedRef.current(analysis);
     } catch (error) {
-      console.error('Error analyzing file:', error);
-      setError('Failed to analyze file. Please try again.');
+      console.error(`Error analyzing ${item.file.name}:`, error);
+      updateItem(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to analyze file',
+      });
       toast({
         title: "Analysis failed",
-        description: "Unable to analyze the PDF file",
+        description: `Unable to analyze ${item.file.name}`,
         variant: "destructive",
       });
+    }
+  };
+
+  // Files go to the server one at a time so every document gets its own
+  // status, and a failure only affects the file that caused it
+  const processQueue = async () => {
+    if (isProcessingRef.current) return;
+    isProcessingRef.current = true;
+    try {
+      for (let item = pendingRef.current.shift(); item; item = pendingRef.current.shift()) {
+        await analyzeItem(item);
+      }
     } finally {
-      setIsAnalyzing(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      isProcessingRef.current = false;
+    }
+  };
+
+  const enqueueFiles = (files: File[]) => {
+    const rejected: string[] = [];
+    const accepted = files.filter(file => {
+      if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+        rejected.push(`${file.name} is not a PDF file`);
+        return false;
       }
+      if (file.size > MAX_FILE_SIZE) {
+        rejected.push(`${file.name} is larger than 20MB`);
+        return false;
+      }
+      return true;
+    });
+
+    setError(rejected.length > 0 ? rejected.join('; ') : null);
+    const items = accepted.map(file => ({
+      id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+      file,
+      issuer: issuer.trim(),
+      status: 'queued' as const,
+    }));
+    setQueue(prev => [...prev, ...items]);
+    pendingRef.current.push(...items);
+    processQueue();
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    enqueueFiles(Array.from(event.target.files ?? []));
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    enqueueFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const clearFinished = () => {
+    setQueue(prev => prev.filter(item => item.status === 'queued' || item.status === 'analyzing'));
+  };
+
+  const finishedCount = queue.filter(item => item.status === 'done' || item.status === 'failed').length;
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -101,42 +175,88 @@ export const FileUpload = ({ onFileAnalyzed }: FileUploadProps) => {
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
-        
+
         <div className="space-y-4">
+          <div>
+            <label htmlFor="batch-issuer" className="text-sm font-medium mb-2 block">
+              Issuer (optional)
+            </label>
+            <Input
+              id="batch-issuer"
+              placeholder="Applied to every file added from now on; otherwise read from each document"
+              value={issuer}
+              onChange={(e) => setIssuer(e.target.value)}
+            />
+          </div>
+
           <input
             ref={fileInputRef}
             type="file"
             accept=".pdf"
+            multiple
             onChange={handleFileSelect}
             className="hidden"
           />
-          
-          <Button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isAnalyzing}
-            className="w-full"
-            variant="outline"
+
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+              isDragging ? 'border-primary bg-primary/5' : 'border-muted'
+            }`}
           >
-            {isAnalyzing ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Analyzing PDF...
-              </>
-            ) : (
-              <>
-                <Upload className="mr-2 h-4 w-4" />
-                Upload PDF Document
-              </>
-            )}
-          </Button>
-          
+            <p className="text-sm text-muted-foreground mb-3">Drop PDF files here, or</p>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="outline"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Select PDF Documents
+            </Button>
+          </div>
+
+          {queue.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold">
+                  Queue ({finishedCount}/{queue.length} processed)
+                </h4>
+                {finishedCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={clearFinished}>
+                    Clear finished
+                  </Button>
+                )}
+              </div>
+              {queue.map(item => (
+                <div key={item.id} className="flex items-center gap-2 text-sm p-2 bg-muted/50 rounded">
+                  {STATUS_ICONS[item.status]}
+                  <span className="flex-1 truncate">{item.file.name}</span>
+                  {item.issuer && <Badge variant="outline">{item.issuer}</Badge>}
+                  {item.status === 'done' && (
+                    <span className="text-xs text-muted-foreground">
+                      {item.providerCount} provider{item.providerCount === 1 ? '' : 's'}
+                    </span>
+                  )}
+                  {item.status === 'failed' && (
+                    <span className="text-xs text-destructive">{item.error}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="text-xs text-muted-foreground space-y-1">
             <p>• Supported formats: PDF files only</p>
-            <p>• Maximum file size: 20MB</p>
+            <p>• Maximum file size: 20MB per file</p>
+            <p>• Documents naming the same issuer are combined into one result</p>
             <p>• Best results with: SEC filings, prospectuses, rating agency reports</p>
           </div>
         </div>
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
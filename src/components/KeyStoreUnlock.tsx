@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Lock, AlertCircle, Unlock } from 'lucide-react';
+import { WebSearchService } from '@/utils/FirecrawlService';
+import { createLocalKeyStore, DEFAULT_IDLE_LOCK_MS, hasLocalKeyStore, resetLocalKeyStore, unlockLocalKeyStore } from '@/utils/LocalKeyStore';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface KeyStoreUnlockProps {
+  onUnlocked: () => void;
+}
+
+export const KeyStoreUnlock = ({ onUnlocked }: KeyStoreUnlockProps) => {
+  const [isCreating, setIsCreating] = useState(() => !hasLocalKeyStore());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const hasPlainKeys = WebSearchService.hasLegacyCredentials();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isCreating) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match');
+        return;
+      }
+    }
+
+    try {
+      setIsWorking(true);
+      if (isCreating) {
+        await createLocalKeyStore(passphrase);
+      } else {
+        await unlockLocalKeyStore(passphrase);
+      }
+      // Plain-text keys from older versions are encrypted now that we can
+      await WebSearchService.migrateLocalCredentials();
+      setPassphrase('');
+      setConfirmation('');
+      onUnlocked();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not unlock stored keys');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Delete every API key stored in this browser? You will need to enter them again.')) return;
+    resetLocalKeyStore();
+    WebSearchService.clearCredentials('all');
+    setIsCreating(true);
+    setError(null);
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-4 w-12 h-12 bg-primary rounded-full flex items-center justify-center">
+          <Lock className="h-6 w-6 text-primary-foreground" />
+        </div>
+        <CardTitle>{isCreating ? 'Protect Your API Keys' : 'Unlock Your API Keys'}</CardTitle>
+        <CardDescription>
+          {isCreating
+            ? 'Choose a passphrase. API keys are encrypted with it before they are stored in this browser.'
+            : 'Enter your passphrase to decrypt the API keys stored in this browser.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {hasPlainKeys && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                An API key saved by an earlier version is stored in plain text. It will be encrypted and the plain copy removed.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <label htmlFor="passphrase" className="text-sm font-medium">
+              Passphrase
+            </label>
+            <Input
+              id="passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete={isCreating ? 'new-password' : 'current-password'}
+              autoFocus
+              required
+            />
+          </div>
+
+          {isCreating && (
+            <div className="space-y-2">
+              <label htmlFor="passphrase-confirmation" className="text-sm font-medium">
+                Confirm Passphrase
+              </label>
+              <Input
+                id="passphrase-confirmation"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isWorking || !passphrase}>
+            <Unlock className="mr-2 h-4 w-4" />
+            {isWorking ? 'Working...' : isCreating ? 'Encrypt and Continue' : 'Unlock'}
+          </Button>
+        </form>
+
+        <div className="mt-4 text-xs text-muted-foreground text-center space-y-2">
+          <p>Keys lock again after {DEFAULT_IDLE_LOCK_MS / 60_000} minutes without activity.</p>
+          {!isCreating && (
+            <Button type="button" variant="link" size="sm" className="text-xs" onClick={handleReset}>
+              Forgot your passphrase? Delete stored keys
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
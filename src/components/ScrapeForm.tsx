@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Search, Building2, Settings, AlertCircle } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
+import { ExtractedEntity, extractABCPInfo } from '@/utils/ABCPExtractor';
 
 interface SearchResult {
   issuerName: string;
@@ -40,36 +41,16 @@ export const ABCPSearchForm = ({ onReset }: ABCPSearchFormProps) => {
     context: string; 
     confidence: 'high' | 'medium' | 'low' 
   } => {
-    const liquidityPatterns = [
-      /liquidity\s+provider[:\s]+([^,.;]+)/gi,
-      /liquidity\s+facility[:\s]+([^,.;]+)/gi,
-      /backstop\s+facility[:\s]+([^,.;]+)/gi,
-      /provided\s+by\s+([^,.;]+)\s+(?:bank|financial|institution)/gi,
-      /([^,.;]+)\s+(?:bank|financial)\s+(?:provides|providing)\s+liquidity/gi
-    ];
-
-    let bestMatch = '';
-    let confidence: 'high' | 'medium' | 'low' = 'low';
-    let context = '';
-
-    for (const pattern of liquidityPatterns) {
-      const matches = [...content.matchAll(pattern)];
-      for (const match of matches) {
-        if (match[1] && match[1].trim().length > 2) {
-          const provider = match[1].trim().replace(/[^\w\s&]/g, '');
-          if (provider.length > bestMatch.length) {
-            bestMatch = provider;
-            context = match[0];
-            confidence = content.toLowerCase().includes(issuer.toLowerCase()) ? 'high' : 'medium';
-          }
-        }
-      }
-    }
+    const extraction = extractABCPInfo(content, { issuer });
+    const bestMatch = extraction?.liquidityProviders
+      .reduce<ExtractedEntity | undefined>((best, provider) => (
+        !best || provider.name.length > best.name.length ? provider : best
+      ), undefined);
 
     return {
-      liquidityProvider: bestMatch || undefined,
-      context: context || content.substring(0, 200) + '...',
-      confidence
+      liquidityProvider: bestMatch?.displayName,
+      context: bestMatch?.evidence.sentence || content.substring(0, 200) + '...',
+      confidence: !bestMatch ? 'low' : content.toLowerCase().includes(issuer.toLowerCase()) ? 'high' : 'medium'
     };
   };
 
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { WebSearchService } from '@/utils/FirecrawlService';
+import { EntityBadge } from '@/components/EntityBadge';
+import { formatFacilityAmount } from '@/utils/FacilityParser';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -87,6 +89,11 @@ export const SearchHistory = ({ onSelectSearch }: SearchHistoryProps) => {
                       <CardTitle className="text-lg flex items-center gap-2">
                         <Building className="h-5 w-5 text-primary" />
                         {search.issuer}
+                        {search.profile && (
+                          <Badge variant="outline" className="text-xs font-normal">
+                            {search.profile.name}
+                          </Badge>
+                        )}
                       </CardTitle>
                       <div className="flex items-center gap-4">
                         <div className="flex items-center text-sm text-muted-foreground">
@@ -131,9 +138,14 @@ export const SearchHistory = ({ onSelectSearch }: SearchHistoryProps) => {
                                   </div>
                                   <div className="flex flex-wrap gap-2">
                                     {result.liquidityProviders.map((provider, idx) => (
-                                      <Badge key={idx} variant="outline" className="text-xs">
-                                        {provider}
-                                      </Badge>
+                                      <div key={idx} className="flex items-center gap-1">
+                                        <EntityBadge entity={provider} variant="outline" className="text-xs" />
+                                        {provider.facility?.amount !== undefined && (
+                                          <span className="text-xs text-muted-foreground">
+                                            {formatFacilityAmount(provider.facility.amount, provider.facility.currency)}
+                                          </span>
+                                        )}
+                                      </div>
                                     ))}
                                   </div>
                                 </div>
@@ -145,9 +157,7 @@ export const SearchHistory = ({ onSelectSearch }: SearchHistoryProps) => {
                                     <User className="h-4 w-4 text-primary" />
                                     <span className="font-medium text-sm">Administrator:</span>
                                   </div>
-                                  <Badge variant="outline" className="text-xs">
-                                    {result.administrator}
-                                  </Badge>
+                                  <EntityBadge entity={result.administrator} variant="outline" className="text-xs" />
                                 </div>
                               )}
                               
@@ -157,9 +167,7 @@ export const SearchHistory = ({ onSelectSearch }: SearchHistoryProps) => {
                                     <Shield className="h-4 w-4 text-primary" />
                                     <span className="font-medium text-sm">Sponsor:</span>
                                   </div>
-                                  <Badge variant="outline" className="text-xs">
-                                    {result.sponsor}
-                                  </Badge>
+                                  <EntityBadge entity={result.sponsor} variant="outline" className="text-xs" />
                                 </div>
                               )}
                             </div>
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_QUERY_TEMPLATES, ISSUER_PLACEHOLDER, SearchProfile, WebSearchService } from '@/utils/FirecrawlService';
+
+interface SearchProfileEditorProps {
+  // Called with the newly active profile, so the caller can show its providers
+  onProfileChange: (profile: SearchProfile) => void;
+}
+
+export const SearchProfileEditor = ({ onProfileChange }: SearchProfileEditorProps) => {
+  const [profiles, setProfiles] = useState(() => WebSearchService.getSearchProfiles());
+  const [active, setActive] = useState(() => WebSearchService.getActiveProfile());
+  const [templates, setTemplates] = useState(() => active.queryTemplates.join('\n'));
+
+  const refresh = () => {
+    const profile = WebSearchService.getActiveProfile();
+    setProfiles(WebSearchService.getSearchProfiles());
+    setActive(profile);
+    setTemplates(profile.queryTemplates.join('\n'));
+    onProfileChange(profile);
+  };
+
+  const selectProfile = (profileId: string) => {
+    WebSearchService.setActiveProfile(profileId);
+    refresh();
+  };
+
+  const addProfile = () => {
+    const profile = WebSearchService.createSearchProfile(`Profile ${profiles.length + 1}`);
+    WebSearchService.setActiveProfile(profile.id);
+    refresh();
+  };
+
+  const deleteProfile = () => {
+    if (!window.confirm(`Delete the "${active.name}" profile? Its stored keys are kept.`)) return;
+    WebSearchService.deleteSearchProfile(active.id);
+    refresh();
+  };
+
+  const renameProfile = (name: string) => {
+    const profile = { ...active, name };
+    setActive(profile);
+    setProfiles(prev => prev.map(candidate => (candidate.id === profile.id ? profile : candidate)));
+    WebSearchService.saveSearchProfile(profile);
+  };
+
+  // Saved on blur; blank lines are dropped and an empty list falls back to the defaults
+  const saveTemplates = (text: string) => {
+    const queryTemplates = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const profile = { ...active, queryTemplates: queryTemplates.length > 0 ? queryTemplates : [...DEFAULT_QUERY_TEMPLATES] };
+    setActive(profile);
+    setTemplates(profile.queryTemplates.join('\n'));
+    WebSearchService.saveSearchProfile(profile);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">
+        Search Profile
+      </label>
+      <p className="text-xs text-muted-foreground">
+        Each profile keeps its own providers, results per query and query templates. Keys chosen below are used by this profile.
+      </p>
+      <div className="flex gap-2">
+        <Select value={active.id} onValueChange={selectProfile}>
+          <SelectTrigger className="w-1/3">
+            <SelectValue placeholder="Profile" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={active.name}
+          onChange={(e) => renameProfile(e.target.value)}
+          placeholder="Profile name"
+          className="flex-1"
+        />
+        <Button type="button" variant="ghost" size="icon" onClick={addProfile}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" onClick={deleteProfile} disabled={profiles.length === 1}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label htmlFor="query-templates" className="text-xs text-muted-foreground">
+          Query templates, one per line; {ISSUER_PLACEHOLDER} is replaced with the issuer name
+        </label>
+        <Button type="button" variant="ghost" size="sm" onClick={() => saveTemplates('')}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Defaults
+        </Button>
+      </div>
+      <Textarea
+        id="query-templates"
+        value={templates}
+        onChange={(e) => setTemplates(e.target.value)}
+        onBlur={(e) => saveTemplates(e.target.value)}
+        rows={6}
+        className="font-mono text-xs"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, AlertCircle } from 'lucide-react';
+import { VaultAccess, WebSearchService } from '@/utils/FirecrawlService';
+
+interface VaultAccessPromptProps {
+  access: Exclude<VaultAccess, 'granted'>;
+  onGranted: () => void;
+}
+
+export const VaultAccessPrompt = ({ access, onGranted }: VaultAccessPromptProps) => {
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      setIsChecking(true);
+      const result = await WebSearchService.setVaultAccessToken(token.trim());
+      if (result === 'granted') {
+        setToken('');
+        onGranted();
+      } else {
+        setError('The server did not accept that access token');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not check the access token');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-4 w-12 h-12 bg-primary rounded-full flex items-center justify-center">
+          <ShieldCheck className="h-6 w-6 text-primary-foreground" />
+        </div>
+        <CardTitle>Access Stored Credentials</CardTitle>
+        <CardDescription>
+          API keys on this server are shared by your team. Enter the access token your administrator gave you to use them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {access === 'disabled' ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Stored credentials are switched off on this server until an administrator sets CREDENTIAL_ACCESS_TOKEN.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor="access-token" className="text-sm font-medium">
+                Access Token
+              </label>
+              <Input
+                id="access-token"
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                autoComplete="off"
+                autoFocus
+                required
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isChecking || !token.trim()}>
+              {isChecking ? 'Checking...' : 'Continue'}
+            </Button>
+          </form>
+        )}
+        <p className="mt-4 text-xs text-muted-foreground text-center">
+          The token is kept until this tab is closed.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
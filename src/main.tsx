@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { WebSearchService } from "./utils/FirecrawlService";
+
+// Upgrades settings saved by older versions before any component reads them
+WebSearchService.migrateSearchProfiles();
 
 createRoot(document.getElementById("root")!).render(<App />);
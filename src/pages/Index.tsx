@@ -1,22 +1,48 @@
 import { useState, useEffect } from 'react';
-import { WebSearchService } from '@/utils/FirecrawlService';
+import { CredentialStorage, VaultAccess, WebSearchService } from '@/utils/FirecrawlService';
+import { isLocalKeyStoreUnlocked, onLocalKeyStoreChange, startIdleLock } from '@/utils/LocalKeyStore';
 import { ApiKeyForm } from '@/components/ApiKeyForm';
 import { ABCPSearchForm } from '@/components/ABCPSearchForm';
+import { KeyStoreUnlock } from '@/components/KeyStoreUnlock';
+import { VaultAccessPrompt } from '@/components/VaultAccessPrompt';
 
 const Index = () => {
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [credentialStorage, setCredentialStorage] = useState<CredentialStorage>('vault');
+  const [isUnlocked, setIsUnlocked] = useState(isLocalKeyStoreUnlocked);
+  const [vaultAccess, setVaultAccess] = useState<VaultAccess>('granted');
+
+  // Older plain-text keys move to the vault once this tab may write to it
+  const migrateCredentials = () =>
+    WebSearchService.migrateLocalCredentials()
+      .catch(error => console.error('Could not move stored API keys to the credential vault:', error))
+      .finally(() => setHasApiKey(WebSearchService.isConfigured()));
 
   useEffect(() => {
-    const existingKey = WebSearchService.getApiKey();
-    setHasApiKey(!!existingKey);
+    WebSearchService.getCredentialStorage()
+      .then(async storage => {
+        setCredentialStorage(storage);
+        const access = storage === 'vault' ? await WebSearchService.getVaultAccess() : 'granted';
+        setVaultAccess(access);
+        if (access === 'granted') await migrateCredentials();
+      })
+      .catch(error => console.error('Could not reach the credential service:', error));
   }, []);
 
+  useEffect(() => onLocalKeyStoreChange(setIsUnlocked), []);
+
+  // Keys kept in the browser lock themselves when the analyst walks away
+  useEffect(() => {
+    if (credentialStorage === 'local' && isUnlocked) {
+      return startIdleLock();
+    }
+  }, [credentialStorage, isUnlocked]);
+
   const handleApiKeySet = () => {
     setHasApiKey(true);
   };
 
   const handleReset = () => {
-    localStorage.removeItem('web_search_api_key');
     setHasApiKey(false);
   };
 
@@ -42,7 +68,17 @@ const Index = () => {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-12">
-        {!hasApiKey ? (
+        {credentialStorage === 'vault' && vaultAccess !== 'granted' ? (
+          <VaultAccessPrompt
+            access={vaultAccess}
+            onGranted={() => {
+              setVaultAccess('granted');
+              migrateCredentials();
+            }}
+          />
+        ) : credentialStorage === 'local' && !isUnlocked ? (
+          <KeyStoreUnlock onUnlocked={() => setHasApiKey(WebSearchService.isConfigured())} />
+        ) : !hasApiKey ? (
           <div className="text-center space-y-8">
             <div className="max-w-2xl mx-auto">
               <h2 className="text-3xl font-bold text-primary mb-4">Get Started</h2>
@@ -53,7 +89,7 @@ const Index = () => {
             <ApiKeyForm onApiKeySet={handleApiKeySet} />
           </div>
         ) : (
-          <ABCPSearchForm onReset={handleReset} />
+          <ABCPSearchForm onReset={handleReset} onManageProviders={() => setHasApiKey(false)} />
         )}
       </div>
 
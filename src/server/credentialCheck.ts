@@ -0,0 +1,72 @@
+import { CredentialCheckResult, CredentialStatus, SearchProviderError } from '../utils/SearchProviders';
+import type { ProviderSearchRequest, SearchProvider } from './providers/provider';
+
+const CHECK_TIMEOUT_MS = 15_000;
+const CHECK_QUERY = 'asset backed commercial paper';
+
+/**
+ * Makes one cheap call with the key: the provider's own check when it has
+ * one (usually an account or usage endpoint), else a one-result search.
+ * Failures are reported as a status rather than thrown, so the setup form
+ * can say what is wrong before the key is saved.
+ */
+export async function checkProviderCredentials(
+  provider: SearchProvider,
+  request: Omit<ProviderSearchRequest, 'query' | 'numResults'>
+): Promise<CredentialCheckResult> {
+  const testRequest: ProviderSearchRequest = {
+    ...request,
+    query: CHECK_QUERY,
+    numResults: 1,
+    signal: request.signal
+      ? AbortSignal.any([request.signal, AbortSignal.timeout(CHECK_TIMEOUT_MS)])
+      : AbortSignal.timeout(CHECK_TIMEOUT_MS)
+  };
+
+  const invalid = provider.validateRequest?.(testRequest);
+  if (invalid) {
+    return { status: 'missing_engine_id', message: invalid };
+  }
+
+  try {
+    if (provider.checkCredentials) {
+      const quota = await provider.checkCredentials(testRequest);
+      if (quota && quota.remaining <= 0) {
+        return { status: 'quota_exhausted', message: `No ${quota.unit} left on this ${provider.displayName} plan`, quota };
+      }
+      return { status: 'valid', message: `${provider.displayName} accepted the key`, quota };
+    }
+
+    await provider.search(testRequest);
+    return { status: 'valid', message: `${provider.displayName} accepted the key` };
+  } catch (error) {
+    return {
+      status: (error instanceof SearchProviderError && provider.checkFailureStatus?.(error)) || failureStatus(error),
+      message: error instanceof Error ? error.message : 'Credential check failed'
+    };
+  }
+}
+
+function failureStatus(error: unknown): CredentialStatus {
+  if (error instanceof SearchProviderError) {
+    switch (error.reason) {
+      case 'rate_limited':
+        return 'quota_exhausted';
+      case 'timeout':
+      case 'unavailable':
+      case 'circuit_open':
+        return 'network_error';
+      case 'rejected':
+        return 'invalid_key';
+      default:
+        return 'check_failed';
+    }
+  }
+  // fetch rejects with a TypeError, and timeouts abort, when the host can't be reached
+  if (error instanceof TypeError || (error instanceof DOMException && error.name === 'TimeoutError')) {
+    return 'network_error';
+  }
+  // Anything else went wrong on our side or in an unexpected answer, which
+  // says nothing about the key
+  return 'check_failed';
+}
@@ -0,0 +1,147 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scrypt } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CredentialSummary, maskCredentialFields } from '../utils/SearchProviders';
+
+// Provider keys are encrypted with a key derived from CREDENTIAL_VAULT_KEY, so
+// the vault file alone doesn't reveal them. Labels and masked hints stay
+// readable for the management screen
+const VAULT_PATH = process.env.CREDENTIAL_VAULT_PATH || path.join(process.cwd(), '.data', 'credentials.json');
+const VAULT_VERSION = 1;
+
+interface StoredCredential extends CredentialSummary {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+interface VaultFile {
+  version: number;
+  // Salt for deriving the encryption key from CREDENTIAL_VAULT_KEY
+  salt: string;
+  credentials: StoredCredential[];
+}
+
+export interface ResolvedCredential {
+  provider: string;
+  fields: Record<string, string>;
+}
+
+// Writes go one after another so two saves can't drop each other's entry
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+// scrypt is deliberately slow, so each secret and salt is derived once, off
+// the event loop, rather than on every search
+const derivedKeys = new Map<string, Promise<Buffer>>();
+
+// Without CREDENTIAL_VAULT_KEY the server holds no keys and each browser
+// keeps its own, encrypted under a passphrase
+export function isVaultEnabled(): boolean {
+  return !!process.env.CREDENTIAL_VAULT_KEY;
+}
+
+export async function listCredentials(): Promise<CredentialSummary[]> {
+  const vault = await readVault();
+  return vault.credentials.map(toSummary);
+}
+
+export function saveCredential(provider: string, label: string, fields: Record<string, string>): Promise<CredentialSummary> {
+  return updateVault(async vault => {
+    const id = randomUUID();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await vaultKey(vault), iv);
+    // Binding the ID and provider stops a ciphertext being moved to another entry
+    cipher.setAAD(Buffer.from(`${id}:${provider}`));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(fields), 'utf8'), cipher.final()]);
+
+    const stored: StoredCredential = {
+      id,
+      provider,
+      label,
+      hints: maskCredentialFields(fields),
+      createdAt: new Date().toISOString(),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    };
+    vault.credentials.push(stored);
+    return toSummary(stored);
+  });
+}
+
+export function deleteCredential(id: string): Promise<boolean> {
+  return updateVault(vault => {
+    const remaining = vault.credentials.filter(credential => credential.id !== id);
+    const deleted = remaining.length < vault.credentials.length;
+    vault.credentials = remaining;
+    return deleted;
+  });
+}
+
+/**
+ * Decrypts a stored credential for one request. The fields never leave the
+ * server; callers pass them straight to the provider.
+ */
+export async function resolveCredential(id: string): Promise<ResolvedCredential | undefined> {
+  const vault = await readVault();
+  const stored = vault.credentials.find(credential => credential.id === id);
+  if (!stored) return undefined;
+
+  const decipher = createDecipheriv('aes-256-gcm', await vaultKey(vault), Buffer.from(stored.iv, 'base64'));
+  decipher.setAAD(Buffer.from(`${stored.id}:${stored.provider}`));
+  decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(stored.ciphertext, 'base64')), decipher.final()]);
+  return { provider: stored.provider, fields: JSON.parse(plaintext.toString('utf8')) };
+}
+
+function toSummary({ id, provider, label, hints, createdAt }: StoredCredential): CredentialSummary {
+  return { id, provider, label, hints, createdAt };
+}
+
+function vaultKey(vault: VaultFile): Promise<Buffer> {
+  const secret = process.env.CREDENTIAL_VAULT_KEY;
+  if (!secret) {
+    return Promise.reject(new Error('CREDENTIAL_VAULT_KEY is not set, so provider credentials cannot be stored or read'));
+  }
+
+  const cacheKey = `${vault.salt}:${secret}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = new Promise<Buffer>((resolve, reject) => {
+      scrypt(secret, Buffer.from(vault.salt, 'base64'), 32, (error, derived) => (error ? reject(error) : resolve(derived)));
+    });
+    derivedKeys.set(cacheKey, key);
+    // A failed derivation is retried on the next call
+    key.catch(() => derivedKeys.delete(cacheKey));
+  }
+  return key;
+}
+
+async function readVault(): Promise<VaultFile> {
+  try {
+    const vault: VaultFile = JSON.parse(await fs.readFile(VAULT_PATH, 'utf8'));
+    if (vault.version !== VAULT_VERSION) {
+      throw new Error(`Unsupported credential vault version ${vault.version}`);
+    }
+    return vault;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return { version: VAULT_VERSION, salt: randomBytes(16).toString('base64'), credentials: [] };
+  }
+}
+
+function updateVault<T>(update: (vault: VaultFile) => T | Promise<T>): Promise<T> {
+  const write = pendingWrite.then(async () => {
+    const vault = await readVault();
+    const result = await update(vault);
+
+    // Written to a temporary file and renamed so a crash never truncates the vault
+    const temporary = `${VAULT_PATH}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(VAULT_PATH), { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(vault, null, 2), { mode: 0o600 });
+    await fs.rename(temporary, VAULT_PATH);
+    return result;
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
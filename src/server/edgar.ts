@@ -0,0 +1,231 @@
+import type { FilingMetadata } from '../utils/FirecrawlService';
+import { htmlToText } from './htmlText';
+import type { RateLimit } from './providers/provider';
+import { responseError, throttle } from './searchGuard';
+
+// EDGAR_BASE_URL points both the full-text search and the archive at one host,
+// e.g. a local fixture server that serves /LATEST/search-index and /Archives/...
+const BASE_URL = process.env.EDGAR_BASE_URL?.replace(/\/+$/, '');
+const SEARCH_URL = BASE_URL ? `${BASE_URL}/LATEST/search-index` : 'https://efts.sec.gov/LATEST/search-index';
+const ARCHIVES_URL = BASE_URL ? `${BASE_URL}/Archives/edgar/data` : 'https://www.sec.gov/Archives/edgar/data';
+
+// The SEC rejects requests that don't identify the caller with a contact address
+const USER_AGENT = process.env.EDGAR_USER_AGENT || 'ABCP Search (set EDGAR_USER_AGENT to a contact address)';
+
+// SEC fair access allows ten requests a second from one host. The search, the
+// filing indexes and the documents all count, so every request to the SEC
+// takes a slot from this one limit, shared by all searches on the server
+const SEC_RATE_LIMIT: RateLimit = { requests: 5, intervalMs: 1000 };
+const SEC_THROTTLE_KEY = 'sec.gov';
+
+// Filing documents can run to many megabytes, and a full submission file to
+// hundreds; the parties are named up front, so only the start is downloaded
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+const MAX_DOCUMENT_CHARS = 500_000;
+
+// Documents are read inside the provider call that guardedSearch retries on
+// a timeout, so each gets its own timeout and all of them share a budget that
+// ends well before the provider's. A filing that isn't read in time keeps its
+// snippet instead of failing, and retrying, the whole search
+const DOCUMENT_TIMEOUT_MS = 15_000;
+const DOCUMENT_BUDGET_MS = 40_000;
+
+export interface EdgarSearchResult {
+  url: string;
+  title: string;
+  content: string;
+  snippet: string;
+  filing: FilingMetadata;
+}
+
+export interface EdgarSearchOptions {
+  forms?: string[];
+  startDate?: string;
+  endDate?: string;
+  signal?: AbortSignal;
+}
+
+// The directory listing served as index.json in each filing's folder
+interface FilingIndex {
+  directory?: {
+    item?: { name: string; type?: string; size?: string }[];
+  };
+}
+
+interface EdgarHit {
+  _id: string;
+  _source: {
+    ciks?: string[];
+    display_names?: string[];
+    form?: string;
+    root_form?: string;
+    file_date?: string;
+    adsh?: string;
+  };
+}
+
+export async function searchEdgar(query: string, numResults: number, options: EdgarSearchOptions = {}): Promise<EdgarSearchResult[]> {
+  const params = new URLSearchParams({ q: query });
+  if (options.forms?.length) {
+    params.set('forms', options.forms.join(','));
+  }
+  if (options.startDate || options.endDate) {
+    params.set('dateRange', 'custom');
+    if (options.startDate) params.set('startdt', options.startDate);
+    if (options.endDate) params.set('enddt', options.endDate);
+  }
+
+  const deadline = Date.now() + DOCUMENT_BUDGET_MS;
+  const response = await secFetch(`${SEARCH_URL}?${params}`, options.signal, 'application/json');
+
+  if (!response.ok) {
+    throw responseError('EDGAR search error', response);
+  }
+
+  const data = await response.json();
+  const hits: EdgarHit[] = data.hits?.hits ?? [];
+  const results: EdgarSearchResult[] = [];
+
+  // One filing often matches through several exhibits; the first is enough
+  const seenFilings = new Set<string>();
+  for (const hit of hits) {
+    if (results.length >= numResults) break;
+    options.signal?.throwIfAborted();
+
+    const filing = toFilingMetadata(hit);
+    if (!filing || seenFilings.has(filing.accessionNumber)) continue;
+    seenFilings.add(filing.accessionNumber);
+
+    const snippet = `${filing.formType} filed ${filing.filingDate} by ${filing.filer} (CIK ${filing.cik})`;
+    const remainingMs = deadline - Date.now();
+    const { url, content } = remainingMs <= 0
+      ? { url: filing.indexUrl, content: snippet }
+      : await readFiling(filing, hit._id.split(':')[1], documentSignal(options.signal, remainingMs))
+        .catch((error): { url: string; content: string } => {
+          options.signal?.throwIfAborted();
+          console.warn(`Could not fetch EDGAR filing ${filing.accessionNumber}:`, error);
+          return { url: filing.indexUrl, content: snippet };
+        });
+
+    results.push({
+      url,
+      title: `${filing.filer} ${filing.formType} (${filing.filingDate})`,
+      content,
+      snippet,
+      filing
+    });
+  }
+
+  return results;
+}
+
+function toFilingMetadata(hit: EdgarHit): FilingMetadata | undefined {
+  const source = hit._source;
+  const accessionNumber = source.adsh ?? hit._id.split(':')[0];
+  const cik = source.ciks?.[0];
+  if (!accessionNumber || !cik) return undefined;
+
+  // Display names read "GOTHAM FUNDING CORP  (GOTH)  (CIK 0001234567)"
+  const filer = (source.display_names?.[0] ?? '')
+    .replace(/\s*\((?:CIK\s+\d+|[A-Z0-9.,\s-]{1,20})\)/g, ' ')
+    .trim() || `CIK ${cik}`;
+
+  return {
+    formType: source.form ?? source.root_form ?? 'Unknown',
+    filer,
+    cik,
+    filingDate: source.file_date ?? '',
+    accessionNumber,
+    indexUrl: `${ARCHIVES_URL}/${stripLeadingZeros(cik)}/${accessionNumber.replace(/-/g, '')}/${accessionNumber}-index.htm`
+  };
+}
+
+/**
+ * Reads the document a full-text hit matched. When the hit names no document,
+ * or the archive no longer serves it under that name, the filing's index is
+ * queried and its main document read instead.
+ */
+async function readFiling(filing: FilingMetadata, fileName: string | undefined, signal?: AbortSignal): Promise<{ url: string; content: string }> {
+  const folder = `${ARCHIVES_URL}/${stripLeadingZeros(filing.cik)}/${filing.accessionNumber.replace(/-/g, '')}`;
+  if (fileName) {
+    const url = `${folder}/${fileName}`;
+    try {
+      return { url, content: await fetchFilingDocument(url, signal) };
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(`Could not fetch EDGAR document ${url}, falling back to the filing index:`, error);
+    }
+  }
+
+  const response = await secFetch(`${folder}/index.json`, signal, 'application/json');
+  if (!response.ok) {
+    throw new Error(`Filing index: ${response.status} ${response.statusText}`);
+  }
+  const index: FilingIndex = await response.json();
+  const url = `${folder}/${mainDocument(index, filing.accessionNumber) ?? `${filing.accessionNumber}.txt`}`;
+  return { url, content: await fetchFilingDocument(url, signal) };
+}
+
+// The index doesn't mark the primary document, but it's the first filed
+// document that isn't one of the generated index, XBRL viewer or full
+// submission files; the full submission text is the fallback
+function mainDocument(index: FilingIndex, accessionNumber: string): string | undefined {
+  return index.directory?.item
+    ?.map(item => item.name)
+    .find(name =>
+      /\.(?:htm|html|txt)$/i.test(name) &&
+      !name.startsWith(accessionNumber) &&
+      !/^(?:R\d+\.htm|FilingSummary\.|index)/i.test(name)
+    );
+}
+
+async function fetchFilingDocument(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await secFetch(url, signal);
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const body = await readStart(response, MAX_DOCUMENT_BYTES);
+  const text = /<html|<body|<p\b|<div\b|<table\b/i.test(body) ? htmlToText(body) : body;
+  return text.slice(0, MAX_DOCUMENT_CHARS);
+}
+
+// Streams at most maxBytes of the body and drops the rest unread
+async function readStart(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, maxBytes - received);
+    received += chunk.byteLength;
+    text += decoder.decode(chunk, { stream: true });
+    if (received >= maxBytes) {
+      await reader.cancel();
+      break;
+    }
+  }
+  return text + decoder.decode();
+}
+
+function documentSignal(signal: AbortSignal | undefined, remainingMs: number): AbortSignal {
+  const timeout = AbortSignal.timeout(Math.min(DOCUMENT_TIMEOUT_MS, remainingMs));
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+async function secFetch(url: string, signal?: AbortSignal, accept?: string): Promise<Response> {
+  await throttle(SEC_THROTTLE_KEY, SEC_RATE_LIMIT, signal);
+  return fetch(url, {
+    headers: accept ? { 'User-Agent': USER_AGENT, 'Accept': accept } : { 'User-Agent': USER_AGENT },
+    signal
+  });
+}
+
+function stripLeadingZeros(cik: string): string {
+  return cik.replace(/^0+(?=\d)/, '');
+}
@@ -0,0 +1,51 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  sect: '§',
+  eacute: 'é',
+};
+
+const BLOCK_TAGS = /<\/?(?:p|div|br|hr|li|ul|ol|tr|table|h[1-6]|section|article|header|footer|blockquote|pre|center|dt|dd)\b[^>]*>/gi;
+
+/**
+ * Reduces an HTML page (or an EDGAR filing, which is often HTML wrapped in
+ * SGML) to readable text: scripts, styles and markup are dropped, block
+ * elements become line breaks and table cells are kept apart by tabs so
+ * sentence-based extraction doesn't run rows together.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<(script|style|head|noscript|svg|template)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+      .replace(/<\/t[dh]\s*>/gi, '\t')
+      .replace(BLOCK_TAGS, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \f\v\u00a0]+/g, ' ')
+    .replace(/ *\t[ \t]*/g, '\t')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : ' ';
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
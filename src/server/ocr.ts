@@ -0,0 +1,36 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import englishData from '@tesseract.js-data/eng';
+
+export interface OCRResult {
+  text: string;
+  // 0-1, averaged by Tesseract over the recognized words
+  confidence: number;
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+// One worker is shared by all requests; the language data ships with the
+// @tesseract.js-data/eng package so recognition never reaches the network
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker(englishData.code, OEM.LSTM_ONLY, {
+      langPath: englishData.langPath,
+      gzip: englishData.gzip,
+      cacheMethod: 'none',
+    }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+export async function recognizeImage(image: Buffer): Promise<OCRResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+
+  return {
+    text: data.text.trim(),
+    confidence: data.confidence / 100,
+  };
+}
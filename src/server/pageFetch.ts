@@ -0,0 +1,204 @@
+import { lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+import type { TextSegment } from '../utils/ABCPExtractor';
+import { htmlToText } from './htmlText';
+import { extractPDFText, toTextSegments } from './pdfText';
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_PAGE_BYTES = 20 * 1024 * 1024;
+const MAX_TEXT_CHARS = 500_000;
+const MAX_REDIRECTS = 5;
+
+// Search hits are untrusted URLs, so the server never fetches its own
+// network: loopback, private, link-local (cloud metadata), carrier-grade NAT
+// and reserved ranges are refused
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface PageContent {
+  content: string;
+  // Set for PDFs, so extraction keeps page numbers and reads schedule tables
+  segments?: TextSegment[];
+}
+
+/**
+ * Downloads a search hit and returns its full readable text. HTML is reduced
+ * to text and PDFs go through the same pipeline as uploaded documents;
+ * anything else is rejected so binary downloads never reach the extractor.
+ */
+export async function fetchPageContent(url: string, signal?: AbortSignal): Promise<PageContent> {
+  const requestSignal = signal
+    ? AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)])
+    : AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const response = await fetchPublic(url, requestSignal);
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_PAGE_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Page is larger than ${MAX_PAGE_BYTES} bytes`);
+  }
+
+  const contentType = response.headers.get('content-type')?.toLowerCase() ?? '';
+  const body = await readLimited(response);
+
+  if (contentType.includes('application/pdf') || isPDF(body)) {
+    // No OCR here: a scanned search hit would hold the request for minutes
+    const { pages } = await extractPDFText(body, { ocr: false });
+    return {
+      content: pages.map(page => page.text).join('\n\n').slice(0, MAX_TEXT_CHARS),
+      segments: toTextSegments(pages)
+    };
+  }
+
+  if (contentType && !/text\/|html|xml/.test(contentType)) {
+    throw new Error(`Unsupported content type ${contentType}`);
+  }
+
+  const text = new TextDecoder().decode(body);
+  const content = /html|xml/.test(contentType) || /<html|<body/i.test(text) ? htmlToText(text) : text;
+  return { content: content.slice(0, MAX_TEXT_CHARS) };
+}
+
+// Follows redirects by hand so every hop is checked before it is requested
+async function fetchPublic(url: string, signal: AbortSignal): Promise<Response> {
+  let target = new URL(url);
+  for (let hop = 0; ; hop++) {
+    assertPublicTarget(target);
+    const response = await requestPublic(target, signal);
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    }
+    target = new URL(location, target);
+  }
+}
+
+// Host names are checked as they are resolved for the connection, in
+// publicLookup; an address written into the URL never goes through a lookup
+function assertPublicTarget({ protocol, hostname }: URL): void {
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${protocol}`);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`Refusing to fetch ${hostname}: it is a private or reserved address`);
+  }
+}
+
+/**
+ * One GET through node:http, so the socket connects to exactly the address
+ * publicLookup approved. Checking with a separate lookup before fetch() would
+ * let a host that answers DNS differently the second time (DNS rebinding)
+ * through to a private address. No Accept-Encoding is sent, so bodies arrive
+ * uncompressed.
+ */
+function requestPublic(url: URL, signal: AbortSignal): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/pdf;q=0.9,text/plain;q=0.8',
+        'User-Agent': 'Mozilla/5.0 (compatible; ABCPSearch/1.0)',
+      },
+      lookup: publicLookup,
+      signal
+    }, message => {
+      try {
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(message.headers)) {
+          for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            headers.append(name, item);
+          }
+        }
+        const status = message.statusCode ?? 0;
+        const body = [204, 205, 304].includes(status) ? null : Readable.toWeb(message) as ReadableStream<Uint8Array>;
+        resolve(new Response(body, { status, statusText: message.statusMessage, headers }));
+      } catch (error) {
+        message.destroy();
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new Error(`Refusing to fetch ${hostname}: it resolves to a private or reserved address`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is judged by the IPv4 address inside
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped, 'ipv4');
+  if (/^::ffff:/i.test(address)) return true;
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Reads the body with a running count, so a response without a
+// content-length is cut off at the cap instead of buffered whole
+async function readLimited(response: Response): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_PAGE_BYTES) {
+      await reader.cancel();
+      throw new Error(`Page is larger than ${MAX_PAGE_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+function isPDF(body: Uint8Array): boolean {
+  return body[0] === 0x25 && body[1] === 0x50 && body[2] === 0x44 && body[3] === 0x46; // %PDF
+}
@@ -0,0 +1,277 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { getDocument, OPS, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { PDFPageProxy, TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import type { TextSegment } from '../utils/ABCPExtractor';
+import { recognizeImage } from './ocr';
+
+export interface PDFTable {
+  rows: string[][];
+}
+
+export interface PDFPage {
+  pageNumber: number;
+  text: string;
+  tables: PDFTable[];
+  source: 'text' | 'ocr';
+  // 0-1, only set for pages read by OCR
+  ocrConfidence?: number;
+}
+
+export interface PDFTextOptions {
+  // Run OCR on pages that have images but no text layer (default true)
+  ocr?: boolean;
+}
+
+export interface PDFTextResult {
+  pageCount: number;
+  pages: PDFPage[];
+}
+
+// Extraction input for a parsed PDF: evidence keeps page numbers, schedules
+// are read from the rebuilt tables and OCR pages weigh by their confidence
+export function toTextSegments(pages: PDFPage[]): TextSegment[] {
+  return pages.map(page => ({
+    text: page.text,
+    page: page.pageNumber,
+    tables: page.tables.map(table => table.rows),
+    quality: page.ocrConfidence
+  }));
+}
+
+interface TextCell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface TextLine {
+  y: number;
+  height: number;
+  cells: TextCell[];
+}
+
+// Items whose baselines are within this many points are treated as one line
+const LINE_TOLERANCE = 2;
+
+// A horizontal gap wider than this (in points, or 1.5x the font height if
+// larger) separates table cells rather than words
+const MIN_CELL_GAP = 12;
+
+// Header plus at least two data rows before a region counts as a table
+const MIN_TABLE_ROWS = 3;
+
+// Pages with less text than this and at least one image are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Render scans at ~216 DPI, a good balance of OCR accuracy and memory use
+const OCR_RENDER_SCALE = 3;
+
+const IMAGE_OPS = new Set<number>([OPS.paintImageXObject, OPS.paintInlineImageXObject, OPS.paintImageMaskXObject]);
+
+const isTextItem = (item: TextItem | TextMarkedContent): item is TextItem => 'str' in item;
+
+/**
+ * Reads the text layer of a PDF page by page. Text items are regrouped into
+ * lines by their baseline so that multi-column layouts and tables keep their
+ * reading order instead of following the PDF's internal drawing order.
+ * Runs of lines that split into aligned cells are also returned as tables.
+ * Scanned pages without a text layer are rendered and read with local OCR.
+ */
+export async function extractPDFText(data: Uint8Array, options: PDFTextOptions = {}): Promise<PDFTextResult> {
+  const { ocr = true } = options;
+  const document = await getDocument({
+    data,
+    disableFontFace: true,
+    useSystemFonts: false,
+    isEvalSupported: false,
+    // Text is read from the text layer and scans are images, so missing
+    // standard font data is not worth a warning
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: PDFPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter(isTextItem).filter(item => item.str.trim());
+
+      const lines = buildLines(items);
+      const text = lines.map(line => line.cells.map(cell => cell.text).join(' ')).join('\n');
+
+      if (ocr && text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS && await hasImages(page)) {
+        pages.push(await readScannedPage(page, pageNumber, text));
+      } else {
+        pages.push({
+          pageNumber,
+          text,
+          tables: detectTables(lines),
+          source: 'text',
+        });
+      }
+
+      page.cleanup();
+    }
+
+    return {
+      pageCount: document.numPages,
+      pages,
+    };
+  } finally {
+    await document.destroy();
+  }
+}
+
+async function hasImages(page: PDFPageProxy): Promise<boolean> {
+  const operatorList = await page.getOperatorList();
+  return operatorList.fnArray.some(fn => IMAGE_OPS.has(fn));
+}
+
+async function readScannedPage(page: PDFPageProxy, pageNumber: number, textLayer: string): Promise<PDFPage> {
+  try {
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({
+      canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+
+    const { text, confidence } = await recognizeImage(canvas.toBuffer('image/png'));
+    return {
+      pageNumber,
+      text,
+      tables: [],
+      source: 'ocr',
+      ocrConfidence: confidence,
+    };
+  } catch (error) {
+    // A failed OCR pass should not lose the rest of the document
+    console.warn(`OCR failed for page ${pageNumber}:`, error);
+    return { pageNumber, text: textLayer, tables: [], source: 'text' };
+  }
+}
+
+function buildLines(items: TextItem[]): TextLine[] {
+  const lines: { y: number; items: TextItem[] }[] = [];
+
+  for (const item of items) {
+    const y = item.transform[5];
+    const line = lines.find(candidate => Math.abs(candidate.y - y) <= LINE_TOLERANCE);
+    if (line) {
+      line.items.push(item);
+    } else {
+      lines.push({ y, items: [item] });
+    }
+  }
+
+  // PDF coordinates grow upwards, so the top of the page has the largest y
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(line => ({
+      y: line.y,
+      height: Math.max(...line.items.map(item => item.height)),
+      cells: buildCells(line.items),
+    }))
+    .filter(line => line.cells.length > 0);
+}
+
+function buildCells(items: TextItem[]): TextCell[] {
+  const cells: TextCell[] = [];
+
+  for (const item of [...items].sort((a, b) => a.transform[4] - b.transform[4])) {
+    const x0 = item.transform[4];
+    const x1 = x0 + item.width;
+    const previous = cells[cells.length - 1];
+    const gap = Math.max(MIN_CELL_GAP, item.height * 1.5);
+
+    if (previous && x0 - previous.x1 < gap) {
+      previous.text = `${previous.text} ${item.str}`;
+      previous.x1 = Math.max(previous.x1, x1);
+    } else {
+      cells.push({ text: item.str, x0, x1 });
+    }
+  }
+
+  return cells
+    .map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }))
+    .filter(cell => cell.text);
+}
+
+function detectTables(lines: TextLine[]): PDFTable[] {
+  const tables: PDFTable[] = [];
+  let region: TextLine[] = [];
+
+  const flush = () => {
+    if (region.filter(line => line.cells.length >= 2).length >= MIN_TABLE_ROWS) {
+      tables.push(buildTable(region));
+    }
+    region = [];
+  };
+
+  for (const line of lines) {
+    if (line.cells.length >= 2) {
+      region.push(line);
+    } else if (region.length > 0 && isWrappedCell(line, region[region.length - 1])) {
+      region.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return tables;
+}
+
+// A single-cell line directly under a row (no paragraph spacing), inside one
+// of its cells, is that cell wrapping onto a second line
+function isWrappedCell(line: TextLine, previous: TextLine): boolean {
+  const [cell] = line.cells;
+  const isAdjacent = previous.y - line.y <= line.height * 1.6;
+  return isAdjacent && previous.cells.some(candidate => overlap(cell, candidate) > 0);
+}
+
+function buildTable(region: TextLine[]): PDFTable {
+  // Cells of one column overlap horizontally across rows, whether they are
+  // left- or right-aligned, so merged overlapping spans give the columns
+  const spans = region
+    .filter(line => line.cells.length >= 2)
+    .flatMap(line => line.cells.map(cell => ({ x0: cell.x0, x1: cell.x1 })))
+    .sort((a, b) => a.x0 - b.x0);
+
+  const columns: { x0: number; x1: number }[] = [];
+  for (const span of spans) {
+    const last = columns[columns.length - 1];
+    if (last && span.x0 <= last.x1) {
+      last.x1 = Math.max(last.x1, span.x1);
+    } else {
+      columns.push({ ...span });
+    }
+  }
+
+  const rows: string[][] = [];
+  for (const line of region) {
+    const row: string[] = columns.map(() => '');
+    for (const cell of line.cells) {
+      const column = columns.reduce((best, candidate, index) => (
+        overlap(cell, candidate) > overlap(cell, columns[best]) ? index : best
+      ), 0);
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    }
+
+    const previous = rows[rows.length - 1];
+    if (line.cells.length === 1 && previous) {
+      previous.forEach((value, index) => {
+        if (row[index]) previous[index] = value ? `${value} ${row[index]}` : row[index];
+      });
+    } else {
+      rows.push(row);
+    }
+  }
+
+  return { rows };
+}
+
+function overlap(a: { x0: number; x1: number }, b: { x0: number; x1: number }): number {
+  return Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+}
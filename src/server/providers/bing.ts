@@ -0,0 +1,48 @@
+import { responseError } from '../searchGuard';
+import { builtinDescriptor, defineSearchProvider } from './provider';
+
+interface BingResponse {
+  webPages?: { value?: { url: string; name: string; snippet: string }[] };
+  error?: { message: string };
+}
+
+export const bingProvider = defineSearchProvider<BingResponse>({
+  ...builtinDescriptor('bing'),
+  // The S1 tier allows three transactions per second
+  rateLimit: { requests: 3, intervalMs: 1000 },
+  pageSize: 50,
+
+  async search({ query, credentials, numResults, offset = 0, signal }) {
+    const response = await fetch(
+      `https://api.bing.microsoft.com/v7.0/search?q=${encodeURIComponent(query)}&count=${numResults}&offset=${offset}`,
+      {
+        method: 'GET',
+        headers: {
+          'Ocp-Apim-Subscription-Key': credentials.apiKey,
+          'Accept': 'application/json',
+        },
+        signal
+      }
+    );
+
+    if (!response.ok) {
+      throw responseError('Bing Search API error', response);
+    }
+
+    const data: BingResponse = await response.json();
+
+    if (data.error) {
+      throw new Error(`Bing Search API error: ${data.error.message}`);
+    }
+    return data;
+  },
+
+  normalize(data) {
+    return data.webPages?.value?.map(item => ({
+      url: item.url,
+      title: item.name,
+      content: item.snippet,
+      snippet: item.snippet
+    })) || [];
+  }
+});
@@ -0,0 +1,19 @@
+import { EdgarSearchResult, searchEdgar } from '../edgar';
+import { builtinDescriptor, defineSearchProvider } from './provider';
+
+export const edgarProvider = defineSearchProvider<EdgarSearchResult[]>({
+  ...builtinDescriptor('edgar'),
+  // No provider-wide limit: searchEdgar spaces out every request it makes to
+  // the SEC, the document downloads included. Those downloads stop within
+  // their own budget, so this only times out a search that hangs
+  timeoutMs: 60_000,
+
+  search({ query, numResults, forms, startDate, endDate, signal }) {
+    return searchEdgar(query, numResults, { forms, startDate, endDate, signal });
+  },
+
+  // searchEdgar already fetched each filing document
+  normalize(results) {
+    return results;
+  }
+});
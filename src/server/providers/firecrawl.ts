@@ -0,0 +1,89 @@
+import Firecrawl, { Document, SdkError, SearchData, SearchResultWeb } from '@mendable/firecrawl-js';
+import { statusError } from '../searchGuard';
+import { builtinDescriptor, defineSearchProvider } from './provider';
+
+export const firecrawlProvider = defineSearchProvider<SearchData>({
+  ...builtinDescriptor('firecrawl'),
+  rateLimit: { requests: 5, intervalMs: 1000 },
+  // Scraping every hit takes longer than a plain search
+  timeoutMs: 60_000,
+
+  // Credit usage is free to read and fails for an unknown key
+  async checkCredentials({ credentials, signal }) {
+    const firecrawl = new Firecrawl({ apiKey: credentials.apiKey });
+    try {
+      const usage = await untilAborted(firecrawl.getCreditUsage(), signal);
+      return {
+        remaining: usage.remainingCredits,
+        limit: usage.planCredits,
+        unit: 'credits',
+        resetsAt: usage.billingPeriodEnd ?? undefined
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw firecrawlError(error);
+    }
+  },
+
+  // Search and scrape in one call: every hit comes back with its whole page as
+  // markdown, so entities are read from the page rather than the snippet
+  async search({ query, credentials, numResults, signal }) {
+    const firecrawl = new Firecrawl({ apiKey: credentials.apiKey });
+    try {
+      return await untilAborted(firecrawl.search(query, {
+        limit: numResults,
+        scrapeOptions: { formats: ['markdown'], onlyMainContent: true }
+      }), signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw firecrawlError(error);
+    }
+  },
+
+  normalize(data) {
+    return (data.web ?? []).map(item => {
+      // Scraped hits are documents carrying the search fields alongside the page
+      const hit = item as Partial<SearchResultWeb> & Document;
+      const url = hit.url ?? hit.metadata?.sourceURL ?? '';
+      const snippet = hit.description ?? hit.metadata?.description ?? '';
+      return {
+        url,
+        title: hit.title ?? hit.metadata?.title ?? url,
+        content: hit.markdown ? markdownToText(hit.markdown) : snippet,
+        snippet
+      };
+    }).filter(result => result.url);
+  }
+});
+
+function firecrawlError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : 'request failed';
+  if (error instanceof SdkError && error.status) {
+    return statusError(`Firecrawl API error: ${error.status} ${message}`, error.status);
+  }
+  return new Error(`Firecrawl API error: ${message}`);
+}
+
+// The SDK takes no abort signal, so an aborted search is abandoned rather
+// than cancelled upstream
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Keeps link text and drops markdown syntax so extraction patterns see prose
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|>)\s+/gm, '')
+    .replace(/(\*\*|\*|`)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
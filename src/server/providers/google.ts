@@ -0,0 +1,78 @@
+import { isValidEngineId } from '../../utils/SearchProviders';
+import { responseError, statusError } from '../searchGuard';
+import { builtinDescriptor, defineSearchProvider } from './provider';
+
+interface GoogleResponse {
+  items?: { link: string; title: string; snippet: string }[];
+  error?: { message: string; errors?: { reason: string }[] };
+}
+
+export const googleProvider = defineSearchProvider<GoogleResponse>({
+  ...builtinDescriptor('google'),
+  // Custom Search's default per-minute quota
+  rateLimit: { requests: 100, intervalMs: 60_000 },
+  pageSize: 10,
+
+  validateRequest({ engineId }) {
+    if (!engineId) return 'Google Custom Search Engine ID is required';
+    if (!isValidEngineId(engineId)) return 'Invalid Google Custom Search Engine ID';
+    return null;
+  },
+
+  async search({ query, credentials, engineId = '', numResults, offset = 0, signal }) {
+    const params = new URLSearchParams({
+      key: credentials.apiKey,
+      cx: engineId.trim(),
+      q: query,
+      num: String(numResults),
+      start: String(offset + 1)
+    });
+    const response = await fetch(
+      `https://www.googleapis.com/customsearch/v1?${params}`,
+      {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal
+      }
+    );
+
+    if (!response.ok) {
+      // An exhausted daily quota comes back as a 403 with a "...LimitExceeded"
+      // reason; report it like a 429 so it isn't mistaken for a bad key
+      const body: GoogleResponse = await response.json().catch(() => ({}));
+      if (body.error?.errors?.some(error => /LimitExceeded$/.test(error.reason))) {
+        throw statusError(`Google Search API error: ${body.error.message}`, 429);
+      }
+      // A bad key and a bad engine ID both come back as a 400; the message
+      // tells them apart
+      if (response.status === 400 && body.error?.message) {
+        throw statusError(`Google Search API error: ${body.error.message}`, 400);
+      }
+      throw responseError('Google Search API error', response);
+    }
+
+    const data: GoogleResponse = await response.json();
+
+    if (data.error) {
+      throw new Error(`Google Search API error: ${data.error.message}`);
+    }
+    return data;
+  },
+
+  // A 400 that isn't about the key is Google's "invalid argument" for a cx
+  // that doesn't name a search engine
+  checkFailureStatus(error) {
+    return error.status === 400 && !/API key/i.test(error.message) ? 'missing_engine_id' : undefined;
+  },
+
+  normalize(data) {
+    return data.items?.map(item => ({
+      url: item.link,
+      title: item.title,
+      content: item.snippet,
+      snippet: item.snippet
+    })) || [];
+  }
+});
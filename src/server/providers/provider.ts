@@ -0,0 +1,60 @@
+import { BUILTIN_SEARCH_PROVIDERS, CredentialStatus, findProviderDescriptor, QuotaInfo, SearchProviderDescriptor, SearchProviderError, SearchResultItem } from '../../utils/SearchProviders';
+
+export type { SearchResultItem } from '../../utils/SearchProviders';
+
+export interface ProviderSearchRequest {
+  query: string;
+  credentials: Record<string, string>;
+  numResults: number;
+  // Zero-based index of the first result, for providers with a pageSize
+  offset?: number;
+  engineId?: string;
+  forms?: string[];
+  startDate?: string;
+  endDate?: string;
+  // Aborted when the client disconnects, so upstream requests stop with it
+  signal?: AbortSignal;
+}
+
+export interface RateLimit {
+  requests: number;
+  intervalMs: number;
+}
+
+export interface SearchProvider<Raw = unknown> extends SearchProviderDescriptor {
+  // Requests allowed per window across the whole server
+  rateLimit?: RateLimit;
+  // Per attempt; defaults to 20 seconds
+  timeoutMs?: number;
+  // Most results one request returns. Providers that set it honour
+  // request.offset, so deeper windows are fetched a page at a time;
+  // the rest are asked for every result in one request
+  pageSize?: number;
+  // Returns an error message for requests the provider can't run
+  validateRequest?: (request: ProviderSearchRequest) => string | null;
+  // Cheap call that proves the key works and, where the provider reports it,
+  // returns the remaining quota. Throws like search does; without it the
+  // key is checked with a one-result search
+  checkCredentials?: (request: ProviderSearchRequest) => Promise<QuotaInfo | undefined>;
+  // Reads a failed check the generic mapping would get wrong, e.g. an error
+  // that blames a setting other than the key; undefined leaves it to that
+  checkFailureStatus?: (error: SearchProviderError) => CredentialStatus | undefined;
+  search: (request: ProviderSearchRequest) => Promise<Raw>;
+  normalize: (raw: Raw) => SearchResultItem[];
+}
+
+/**
+ * Ties a provider's raw response type to its normalizer, so implementations
+ * are checked end to end while the registry holds them all as one type.
+ */
+export function defineSearchProvider<Raw>(provider: SearchProvider<Raw>): SearchProvider {
+  return { ...provider, normalize: raw => provider.normalize(raw as Raw) };
+}
+
+export function builtinDescriptor(id: string): SearchProviderDescriptor {
+  const descriptor = findProviderDescriptor(BUILTIN_SEARCH_PROVIDERS, id);
+  if (!descriptor) {
+    throw new Error(`No built-in search provider descriptor for "${id}"`);
+  }
+  return descriptor;
+}
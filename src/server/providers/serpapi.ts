@@ -0,0 +1,88 @@
+import { responseError, statusError } from '../searchGuard';
+import { builtinDescriptor, defineSearchProvider } from './provider';
+
+interface SerpApiAccount {
+  searches_per_month?: number;
+  total_searches_left?: number;
+  error?: string;
+}
+
+interface SerpApiResponse {
+  organic_results?: { link: string; title: string; snippet: string }[];
+  error?: string;
+}
+
+export const serpApiProvider = defineSearchProvider<SerpApiResponse>({
+  ...builtinDescriptor('serpapi'),
+  rateLimit: { requests: 5, intervalMs: 1000 },
+  pageSize: 10,
+
+  // The account endpoint is free and reports searches left this month
+  async checkCredentials({ credentials, signal }) {
+    const params = new URLSearchParams({ api_key: credentials.apiKey });
+    const response = await fetch(
+      `https://serpapi.com/account.json?${params}`,
+      {
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal
+      }
+    );
+
+    if (!response.ok) {
+      throw responseError('SerpAPI error', response);
+    }
+
+    const account: SerpApiAccount = await response.json();
+    if (account.error) {
+      throw statusError(`SerpAPI error: ${account.error}`, 401);
+    }
+    if (account.total_searches_left === undefined) return undefined;
+    return {
+      remaining: account.total_searches_left,
+      limit: account.searches_per_month,
+      unit: 'searches'
+    };
+  },
+
+  async search({ query, credentials, numResults, offset = 0, signal }) {
+    const params = new URLSearchParams({
+      engine: 'google',
+      q: query,
+      api_key: credentials.apiKey,
+      num: String(numResults),
+      start: String(offset)
+    });
+    const response = await fetch(
+      `https://serpapi.com/search?${params}`,
+      {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal
+      }
+    );
+
+    if (!response.ok) {
+      throw responseError('SerpAPI error', response);
+    }
+
+    const data: SerpApiResponse = await response.json();
+
+    if (data.error) {
+      throw new Error(`SerpAPI error: ${data.error}`);
+    }
+    return data;
+  },
+
+  normalize(data) {
+    return data.organic_results?.map(item => ({
+      url: item.link,
+      title: item.title,
+      content: item.snippet,
+      snippet: item.snippet
+    })) || [];
+  }
+});
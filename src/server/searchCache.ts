@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SearchResultItem } from '../utils/SearchProviders';
+
+// SEARCH_CACHE_TTL_SECONDS=0 turns the cache off
+const CACHE_DIR = process.env.SEARCH_CACHE_DIR || path.join(process.cwd(), '.cache', 'websearch');
+const TTL_MS = Number(process.env.SEARCH_CACHE_TTL_SECONDS ?? 24 * 60 * 60) * 1000;
+// Entries kept at most; the oldest go first once a sweep finds more
+const MAX_ENTRIES = Number(process.env.SEARCH_CACHE_MAX_ENTRIES ?? 5000);
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastSweep = 0;
+
+// Everything that changes what a provider returns. Credentials are left out
+// so colleagues with their own keys share entries
+export interface SearchCacheKey {
+  provider: string;
+  query: string;
+  numResults: number;
+  deep: boolean;
+  engineId?: string;
+  forms?: string[];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CachedSearch {
+  results: SearchResultItem[];
+  cachedAt: string;
+}
+
+interface CacheEntry extends CachedSearch {
+  key: SearchCacheKey;
+}
+
+export function isSearchCacheEnabled(): boolean {
+  return TTL_MS > 0;
+}
+
+export async function readSearchCache(key: SearchCacheKey): Promise<CachedSearch | undefined> {
+  if (!isSearchCacheEnabled()) return undefined;
+
+  const file = entryPath(key);
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Ignoring unreadable search cache entry ${file}:`, error);
+    }
+    return undefined;
+  }
+
+  if (Date.now() - Date.parse(entry.cachedAt) > TTL_MS) {
+    await fs.rm(file, { force: true });
+    return undefined;
+  }
+  return { results: entry.results, cachedAt: entry.cachedAt };
+}
+
+/**
+ * Stores a successful response. Entries are written to a temporary file and
+ * renamed into place so a concurrent read never sees half an entry; a cache
+ * that can't be written only costs the next search a provider call.
+ */
+export async function writeSearchCache(key: SearchCacheKey, results: SearchResultItem[]): Promise<void> {
+  if (!isSearchCacheEnabled()) return;
+
+  const file = entryPath(key);
+  const entry: CacheEntry = { key: normalizeKey(key), results, cachedAt: new Date().toISOString() };
+  const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, file);
+  } catch (error) {
+    console.warn('Could not write search cache entry:', error);
+    await fs.rm(temporary, { force: true });
+  }
+
+  if (Date.now() - lastSweep >= SWEEP_INTERVAL_MS) {
+    lastSweep = Date.now();
+    await sweepSearchCache().catch(error => console.warn('Could not sweep the search cache:', error));
+  }
+}
+
+/**
+ * Deletes expired entries, which a read only removes when the same query
+ * comes back, and then the oldest entries beyond MAX_ENTRIES. Runs after a
+ * write at most once per SWEEP_INTERVAL_MS. Ages come from the file's
+ * modification time, which the rename in writeSearchCache leaves at the
+ * time of the write.
+ */
+async function sweepSearchCache(): Promise<void> {
+  let names: string[];
+  try {
+    names = await fs.readdir(CACHE_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  const now = Date.now();
+  const live: { file: string; writtenAt: number }[] = [];
+  for (const name of names) {
+    const file = path.join(CACHE_DIR, name);
+    const stats = await fs.stat(file).catch(() => undefined);
+    if (!stats?.isFile()) continue;
+    // Leftover temporary files from a crashed write are swept with the expired entries
+    if (now - stats.mtimeMs > TTL_MS) {
+      await fs.rm(file, { force: true });
+    } else if (name.endsWith('.json')) {
+      live.push({ file, writtenAt: stats.mtimeMs });
+    }
+  }
+
+  live.sort((a, b) => b.writtenAt - a.writtenAt);
+  for (const { file } of live.slice(MAX_ENTRIES)) {
+    await fs.rm(file, { force: true });
+  }
+}
+
+// Queries differing only in case or spacing hit the same entry
+function normalizeKey(key: SearchCacheKey): SearchCacheKey {
+  return {
+    provider: key.provider,
+    query: key.query.trim().replace(/\s+/g, ' ').toLowerCase(),
+    numResults: key.numResults,
+    deep: key.deep,
+    engineId: key.engineId?.trim() || undefined,
+    forms: key.forms?.length ? [...key.forms].sort() : undefined,
+    startDate: key.startDate || undefined,
+    endDate: key.endDate || undefined
+  };
+}
+
+function entryPath(key: SearchCacheKey): string {
+  const hash = createHash('sha256').update(JSON.stringify(normalizeKey(key))).digest('hex');
+  return path.join(CACHE_DIR, `${hash}.json`);
+}
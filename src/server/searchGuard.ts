@@ -0,0 +1,177 @@
+import { SearchFailureReason, SearchProviderError } from '../utils/SearchProviders';
+import type { ProviderSearchRequest, RateLimit, SearchProvider } from './providers/provider';
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+// A Retry-After longer than this fails the query instead of holding it open
+const MAX_RETRY_AFTER_MS = 30_000;
+const BREAKER_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 60_000;
+
+const RETRYABLE: SearchFailureReason[] = ['rate_limited', 'timeout', 'unavailable'];
+
+interface ProviderState {
+  // Start times of requests inside the current rate limit window
+  recentStarts: number[];
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+// Shared by every request this server handles, so concurrent searches from
+// several users still respect one provider-wide limit
+const providerStates = new Map<string, ProviderState>();
+
+/**
+ * Runs a provider search within the provider's rate limit and timeout.
+ * 429s, 5xx responses, timeouts and network errors are retried with
+ * exponential backoff, waiting for Retry-After when the provider sends it.
+ * After BREAKER_THRESHOLD transient failures in a row the provider is paused
+ * for BREAKER_COOLDOWN_MS and fails fast with "circuit_open"; the first
+ * search after the pause decides whether it closes again.
+ */
+export async function guardedSearch(provider: SearchProvider, request: ProviderSearchRequest): Promise<unknown> {
+  const state = stateFor(provider.id);
+  const now = Date.now();
+  if (state.openUntil > now) {
+    throw new SearchProviderError(
+      `${provider.displayName} is paused after repeated failures`,
+      'circuit_open',
+      undefined,
+      state.openUntil - now
+    );
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    await acquireSlot(state, provider.rateLimit, request.signal);
+    try {
+      const raw = await provider.search({
+        ...request,
+        signal: withTimeout(request.signal, provider.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      });
+      state.consecutiveFailures = 0;
+      return raw;
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+
+      const failure = toProviderError(error, provider);
+      const delay = retryDelay(failure, attempt);
+      if (delay === null) {
+        recordFailure(state, failure);
+        throw failure;
+      }
+      console.warn(`${provider.displayName} attempt ${attempt} failed (${failure.message}), retrying in ${delay}ms`);
+      await sleep(delay, request.signal);
+    }
+  }
+}
+
+/**
+ * Waits for a slot in a limit shared across the server, for callers that make
+ * several upstream requests per search and have to space out each of them.
+ * Keys share the provider namespace, so use one no provider is registered as.
+ */
+export function throttle(key: string, limit: RateLimit, signal?: AbortSignal): Promise<void> {
+  return acquireSlot(stateFor(key), limit, signal);
+}
+
+// Classifies an upstream HTTP error the way guardedSearch retries it
+export function statusError(message: string, status: number, retryAfterMs?: number): SearchProviderError {
+  const reason: SearchFailureReason = status === 429 ? 'rate_limited' : status >= 500 ? 'unavailable' : 'rejected';
+  return new SearchProviderError(message, reason, status, retryAfterMs);
+}
+
+export function responseError(label: string, response: Response): SearchProviderError {
+  return statusError(
+    `${label}: ${response.status} ${response.statusText}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function stateFor(providerId: string): ProviderState {
+  let state = providerStates.get(providerId);
+  if (!state) {
+    state = { recentStarts: [], consecutiveFailures: 0, openUntil: 0 };
+    providerStates.set(providerId, state);
+  }
+  return state;
+}
+
+async function acquireSlot(state: ProviderState, limit: RateLimit | undefined, signal?: AbortSignal): Promise<void> {
+  if (!limit) return;
+  for (;;) {
+    const now = Date.now();
+    state.recentStarts = state.recentStarts.filter(start => now - start < limit.intervalMs);
+    if (state.recentStarts.length < limit.requests) {
+      state.recentStarts.push(now);
+      return;
+    }
+    await sleep(state.recentStarts[0] + limit.intervalMs - now, signal);
+  }
+}
+
+function recordFailure(state: ProviderState, failure: SearchProviderError): void {
+  // Rejected requests are a problem with the query or the key, not the provider
+  if (!RETRYABLE.includes(failure.reason)) return;
+  state.consecutiveFailures++;
+  if (state.consecutiveFailures >= BREAKER_THRESHOLD) {
+    state.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+  }
+}
+
+function retryDelay(failure: SearchProviderError, attempt: number): number | null {
+  if (attempt >= MAX_ATTEMPTS || !RETRYABLE.includes(failure.reason)) return null;
+  if (failure.retryAfterMs !== undefined) {
+    return failure.retryAfterMs <= MAX_RETRY_AFTER_MS ? failure.retryAfterMs : null;
+  }
+  // Full backoff for the attempt with up to half of it as jitter
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+function toProviderError(error: unknown, provider: SearchProvider): SearchProviderError {
+  if (error instanceof SearchProviderError) return error;
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new SearchProviderError(`${provider.displayName} did not respond in time`, 'timeout');
+  }
+  // fetch rejects with a TypeError when the host can't be reached
+  if (error instanceof TypeError) {
+    return new SearchProviderError(`${provider.displayName} could not be reached: ${error.message}`, 'unavailable');
+  }
+  return new SearchProviderError(error instanceof Error ? error.message : 'Search failed', 'failed');
+}
+
+function withTimeout(signal: AbortSignal | undefined, timeoutMs: number): AbortSignal {
+  return signal
+    ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)])
+    : AbortSignal.timeout(timeoutMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
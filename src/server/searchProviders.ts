@@ -0,0 +1,69 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { SearchProviderDescriptor } from '../utils/SearchProviders';
+import { bingProvider } from './providers/bing';
+import { edgarProvider } from './providers/edgar';
+import { firecrawlProvider } from './providers/firecrawl';
+import { googleProvider } from './providers/google';
+import type { SearchProvider } from './providers/provider';
+import { serpApiProvider } from './providers/serpapi';
+
+export type { ProviderSearchRequest, SearchProvider, SearchResultItem } from './providers/provider';
+export { defineSearchProvider } from './providers/provider';
+
+const BUILTIN_IMPLEMENTATIONS = [googleProvider, bingProvider, serpApiProvider, firecrawlProvider, edgarProvider];
+
+const registry = new Map<string, SearchProvider>(BUILTIN_IMPLEMENTATIONS.map(provider => [provider.id, provider]));
+
+let customProvidersLoaded: Promise<void> | null = null;
+
+export function registerSearchProvider(provider: SearchProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export async function getSearchProvider(id: string): Promise<SearchProvider | undefined> {
+  await loadCustomProviders();
+  return registry.get(id);
+}
+
+export async function listSearchProviders(): Promise<SearchProviderDescriptor[]> {
+  await loadCustomProviders();
+  return Array.from(registry.values()).map(toDescriptor);
+}
+
+// Internal providers are plain modules whose default export is a provider (or
+// a list of them), named in SEARCH_PROVIDER_MODULES as comma-separated paths
+// relative to the working directory; no core file has to change to add one
+function loadCustomProviders(): Promise<void> {
+  if (!customProvidersLoaded) {
+    const modules = (process.env.SEARCH_PROVIDER_MODULES ?? '')
+      .split(',')
+      .map(modulePath => modulePath.trim())
+      .filter(Boolean);
+
+    customProvidersLoaded = Promise.all(modules.map(async modulePath => {
+      try {
+        const specifier = pathToFileURL(path.resolve(process.cwd(), modulePath)).href;
+        const loaded = await import(/* webpackIgnore: true */ /* @vite-ignore */ specifier);
+        const providers: SearchProvider[] = [loaded.default].flat().filter(Boolean);
+        providers.forEach(registerSearchProvider);
+      } catch (error) {
+        console.error(`Could not load search provider module ${modulePath}:`, error);
+      }
+    })).then(() => undefined);
+  }
+  return customProvidersLoaded;
+}
+
+function toDescriptor(provider: SearchProvider): SearchProviderDescriptor {
+  return {
+    id: provider.id,
+    displayName: provider.displayName,
+    kind: provider.kind,
+    credentials: provider.credentials,
+    operators: provider.operators,
+    returnsFullText: provider.returnsFullText,
+    usesEngineProfiles: provider.usesEngineProfiles,
+    setupHint: provider.setupHint,
+  };
+}
@@ -0,0 +1,24 @@
+import { timingSafeEqual } from 'crypto';
+
+// Keys in the vault are shared by everyone who can reach the server, so the
+// routes that list, add, delete, test or spend them require
+// CREDENTIAL_ACCESS_TOKEN as a bearer token. Without a token configured those routes stay switched off
+export interface VaultAccessDenial {
+  status: 401 | 503;
+  error: string;
+}
+
+export function checkVaultAccess(authorization: string | undefined): VaultAccessDenial | undefined {
+  const token = process.env.CREDENTIAL_ACCESS_TOKEN;
+  if (!token) {
+    return { status: 503, error: 'Stored credentials are disabled until CREDENTIAL_ACCESS_TOKEN is set on the server' };
+  }
+
+  const presented = Buffer.from(authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? '');
+  const expected = Buffer.from(token);
+  // Compared in constant time so the token can't be guessed byte by byte
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    return { status: 401, error: 'A valid access token is required for stored credentials' };
+  }
+  return undefined;
+}
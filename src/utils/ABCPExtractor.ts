@@ -0,0 +1,483 @@
+// Shared ABCP extraction engine. Used by the browser (web search and scrape
+// results) and by the API routes (PDF analysis), so it must stay free of
+// Node-only imports.
+
+import { FacilityRecord, parseFacility, parseFacilitySchedule } from '@/utils/FacilityParser';
+import { isListedInstitution, resolveInstitution } from '@/utils/InstitutionResolver';
+import { ParsedRating, parseRatings } from '@/utils/RatingParser';
+
+export type EntityRole = 'liquidityProvider' | 'creditEnhancer' | 'administrator' | 'sponsor';
+
+export type EnhancementScope = 'program' | 'pool';
+
+export type EnhancementForm = 'letter_of_credit' | 'surety_bond' | 'subordinated_note';
+
+export interface EntityEvidence {
+  sentence: string;
+  pattern: string;
+  page?: number;
+  offset?: number;
+}
+
+export interface ExtractedEntity {
+  // Text as it appeared in the source
+  name: string;
+  institutionId: string;
+  displayName: string;
+  evidence: EntityEvidence;
+}
+
+export interface LiquidityProvider extends ExtractedEntity {
+  facility?: FacilityRecord;
+}
+
+export interface CreditEnhancementProvider extends ExtractedEntity {
+  scope: EnhancementScope;
+  form?: EnhancementForm;
+}
+
+export interface ShortTermRating extends ParsedRating {
+  // Institution the rating belongs to; absent when it rates the program's paper
+  subjectId?: string;
+  subjectName?: string;
+  evidence: EntityEvidence;
+}
+
+export interface ABCPExtraction {
+  issuer?: string;
+  liquidityProviders: LiquidityProvider[];
+  creditEnhancementProviders: CreditEnhancementProvider[];
+  ratings: ShortTermRating[];
+  administrator?: ExtractedEntity;
+  sponsor?: ExtractedEntity;
+  confidence: number;
+}
+
+export interface TextSegment {
+  text: string;
+  page?: number;
+  // Rows and cells of tables rebuilt from the page layout
+  tables?: string[][][];
+  // 0-1 reliability of the text, e.g. the OCR confidence of a scanned page;
+  // entity weights from the segment are scaled by it (default 1)
+  quality?: number;
+}
+
+export interface ExtractionOptions {
+  issuer?: string;
+  // Skip text that mentions neither the issuer nor ABCP terminology
+  requireContext?: boolean;
+  // Number of search providers that returned this text's source
+  sourceAgreement?: number;
+}
+
+interface ExtractionRule {
+  role: EntityRole;
+  pattern: RegExp;
+  weight: number;
+}
+
+// Rules are tried in order, so more specific patterns come first
+export const EXTRACTION_RULES: ExtractionRule[] = [
+  // Schedule rows such as "- JPMorgan Chase Bank, N.A. - $500,000,000 364-day revolving credit facility"
+  { role: 'liquidityProvider', pattern: /^[ \t]*(?:[-•*][ \t]*)?([A-Z][^\n$€£]*?)[ \t]*[-–—:,][ \t]*(?:US\$|C\$|\$|€|£|USD|EUR|GBP)[ \t]?[\d,.]+(?:[ \t]*(?:million|billion))?[^\n]*?facilit(?:y|ies)/gm, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /liquidity\s+providers?[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /liquidity\s+facilit(?:y|ies)[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /revolving\s+credit\s+facilit(?:y|ies)[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /backup\s+liquidity[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /committed\s+liquidity[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /liquidity\s+support[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /standby\s+liquidity[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /backstop\s+facilit(?:y|ies)[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /credit\s+facilit(?:y|ies)[: \t]+([^.\n]+)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /provided\s+by\s+([^,.;\n]+?)\s+(?:bank|financial|institution)/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /([^,.;\n]+?)\s+(?:bank|financial)\s+(?:provides|providing)\s+liquidity/gi, weight: 0.3 },
+  { role: 'liquidityProvider', pattern: /\$[\d,]+\s+[^\n]*facility[^\n]*?([A-Z][^.\n]*(?:Bank|N\.A\.|LLC|Corp|Inc))/gi, weight: 0.3 },
+  // Name patterns are case-sensitive: a run of capitalized words ("Citibank, N.A.")
+  { role: 'creditEnhancer', pattern: /((?:[A-Z][\w&'.-]*,?[ \t]+){0,5}[A-Z][\w&'.-]*)\s+(?:provides|will\s+provide|is\s+providing|has\s+provided)\s+(?:the\s+)?(?:(?:program|pool)[- ](?:wide|specific)\s+)?credit\s+enhancement/g, weight: 0.2 },
+  { role: 'creditEnhancer', pattern: /credit\s+enhancement\s+(?:provider|bank)s?[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'creditEnhancer', pattern: /[Ll]etters?\s+of\s+credit\s+(?:issued|provided)\s+by\s+((?:[A-Z][\w&'.-]*,?[ \t]+){0,5}[A-Z][\w&'.-]*)/g, weight: 0.2 },
+  { role: 'creditEnhancer', pattern: /[Ss]urety\s+(?:bond|policy|policies)\s+(?:issued|provided)\s+by\s+((?:[A-Z][\w&'.-]*,?[ \t]+){0,5}[A-Z][\w&'.-]*)/g, weight: 0.2 },
+  { role: 'creditEnhancer', pattern: /[Ss]ubordinated\s+notes?\s+(?:issued\s+to|held\s+by|purchased\s+by)\s+((?:[A-Z][\w&'.-]*,?[ \t]+){0,5}[A-Z][\w&'.-]*)/g, weight: 0.2 },
+  { role: 'administrator', pattern: /program\s+administrator[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'administrator', pattern: /administrative\s+agent[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'administrator', pattern: /administrator[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'administrator', pattern: /trustee[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'sponsor', pattern: /program\s+sponsor[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'sponsor', pattern: /sponsored\s+by[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'sponsor', pattern: /sponsor[: \t]+([^.\n]+)/gi, weight: 0.2 },
+  { role: 'sponsor', pattern: /originator[: \t]+([^.\n]+)/gi, weight: 0.2 },
+];
+
+const ABCP_TERMS = ['abcp', 'commercial paper'];
+
+// Recorded as the evidence "pattern" for entities read from facility schedule tables
+const SCHEDULE_TABLE_PATTERN = 'facility schedule table';
+const SCHEDULE_ROW_WEIGHT = 0.3;
+
+// Captures made only of these words are fragments of the surrounding phrase, not names
+const GENERIC_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'for', 'to', 'by', 'with', 'is', 'are',
+  'facility', 'facilities', 'agreement', 'agreements', 'line', 'lines',
+  'credit', 'liquidity', 'support', 'program', 'programme', 'provider', 'providers',
+]);
+
+const ENHANCEMENT_FORM_PATTERNS: [EnhancementForm, RegExp][] = [
+  ['letter_of_credit', /letters?\s+of\s+credit|\bLOCs?\b/i],
+  ['surety_bond', /surety|financial\s+guarant(?:y|ee)\s+(?:insurance|policy)/i],
+  ['subordinated_note', /subordinated\s+(?:notes?|loans?)/i],
+];
+
+const POOL_SPECIFIC_PATTERN = /(?:pool|transaction|deal)[- ]specific|(?:for|of)\s+(?:each|the\s+related)\s+(?:pool|transaction)/i;
+
+// Sentences about credit enhancement that say nothing about liquidity must not yield liquidity banks
+const CREDIT_ENHANCEMENT_CONTEXT = /credit\s+enhancement|letters?\s+of\s+credit|surety/i;
+
+export const ENHANCEMENT_FORM_LABELS: Record<EnhancementForm, string> = {
+  letter_of_credit: 'Letter of credit',
+  surety_bond: 'Surety bond',
+  subordinated_note: 'Subordinated note',
+};
+
+export const ENHANCEMENT_SCOPE_LABELS: Record<EnhancementScope, string> = {
+  program: 'Program-wide',
+  pool: 'Pool-specific',
+};
+
+// A rating sentence that names the paper or program rates the program, not a bank
+const PROGRAM_RATING_SUBJECT = /commercial\s+paper|\bnotes\b|\bCP\b|\bprogram|\bconduit|\bABCP\b/i;
+
+const CONTEXT_WEIGHTS = {
+  issuerMention: 0.3,
+  abcpTerminology: 0.3,
+  programRating: 0.1,
+  // Per provider beyond the first that returned the same page
+  providerAgreement: 0.1,
+};
+
+/**
+ * Extracts liquidity providers, credit enhancers, administrator and sponsor
+ * from plain text or from page-numbered segments. Every entity carries the
+ * sentence and rule that produced it so findings can be traced back to the
+ * source.
+ */
+export function extractABCPInfo(input: string | TextSegment[], options: ExtractionOptions = {}): ABCPExtraction | null {
+  const segments = typeof input === 'string' ? [{ text: input }] : input;
+  const text = segments.map(segment => segment.text).join('\n').toLowerCase();
+  const issuerMentioned = !!options.issuer && text.includes(options.issuer.toLowerCase());
+  const hasABCPTerminology = ABCP_TERMS.some(term => text.includes(term));
+
+  if (options.requireContext && !issuerMentioned && !hasABCPTerminology) {
+    return null;
+  }
+
+  let confidence = 0;
+
+  const liquidityProviders: LiquidityProvider[] = [];
+  const addLiquidityProvider = (entity: LiquidityProvider, weight: number) => {
+    const existing = liquidityProviders.find(candidate => candidate.institutionId === entity.institutionId);
+    if (!existing) {
+      liquidityProviders.push(entity);
+      confidence += weight;
+    } else if (entity.facility) {
+      existing.facility = { ...entity.facility, ...existing.facility };
+    }
+  };
+
+  // Facility schedules come first: their rows are already split into fields
+  for (const segment of segments) {
+    for (const table of segment.tables ?? []) {
+      for (const { name, facility, row } of parseFacilitySchedule(table)) {
+        const provider = cleanExtractedText(name);
+        if (!isMeaningfulName(provider)) continue;
+
+        const evidence: EntityEvidence = {
+          sentence: row.filter(Boolean).join(' | '),
+          pattern: SCHEDULE_TABLE_PATTERN,
+          page: segment.page
+        };
+        addLiquidityProvider({ ...createEntity(provider, evidence), facility }, SCHEDULE_ROW_WEIGHT * (segment.quality ?? 1));
+      }
+    }
+  }
+
+  for (const { rule, segment, match } of findMatches(segments, 'liquidityProvider')) {
+    const provider = cleanExtractedText(match[1]);
+    if (!isMeaningfulName(provider)) continue;
+
+    const evidence = buildEvidence(segment, match, rule.pattern);
+    if (CREDIT_ENHANCEMENT_CONTEXT.test(evidence.sentence) && !/liquidity/i.test(evidence.sentence)) continue;
+
+    addLiquidityProvider({
+      ...createEntity(provider, evidence),
+      facility: parseFacility(evidence.sentence)
+    }, rule.weight * (segment.quality ?? 1));
+  }
+
+  const creditEnhancementProviders: CreditEnhancementProvider[] = [];
+  for (const { rule, segment, match } of findMatches(segments, 'creditEnhancer')) {
+    const enhancer = cleanExtractedText(match[1]);
+    if (!isMeaningfulName(enhancer)) continue;
+
+    const evidence = buildEvidence(segment, match, rule.pattern);
+    const entity: CreditEnhancementProvider = {
+      ...createEntity(enhancer, evidence),
+      scope: POOL_SPECIFIC_PATTERN.test(evidence.sentence) ? 'pool' : 'program',
+      form: ENHANCEMENT_FORM_PATTERNS.find(([, pattern]) => pattern.test(evidence.sentence))?.[0]
+    };
+
+    const isDuplicate = creditEnhancementProviders.some(existing => (
+      existing.institutionId === entity.institutionId && existing.scope === entity.scope
+    ));
+    if (!isDuplicate) {
+      creditEnhancementProviders.push(entity);
+      confidence += rule.weight * (segment.quality ?? 1);
+    }
+  }
+
+  const findFirst = (role: EntityRole): ExtractedEntity | undefined => {
+    for (const { rule, segment, match } of findMatches(segments, role)) {
+      const name = cleanExtractedText(match[1]);
+      if (isMeaningfulName(name)) {
+        confidence += rule.weight * (segment.quality ?? 1);
+        return createEntity(name, buildEvidence(segment, match, rule.pattern));
+      }
+    }
+    return undefined;
+  };
+
+  const administrator = findFirst('administrator');
+  const sponsor = findFirst('sponsor');
+  const ratings = extractRatings(segments);
+
+  const hasFindings = liquidityProviders.length > 0 || creditEnhancementProviders.length > 0 || ratings.length > 0;
+  if (!hasFindings && !administrator && !sponsor) {
+    return null;
+  }
+
+  if (ratings.some(rating => !rating.subjectId)) {
+    confidence += CONTEXT_WEIGHTS.programRating;
+  }
+  if (issuerMentioned) {
+    confidence += CONTEXT_WEIGHTS.issuerMention;
+  }
+  if (hasABCPTerminology) {
+    confidence += CONTEXT_WEIGHTS.abcpTerminology;
+  }
+  if (options.sourceAgreement && options.sourceAgreement > 1) {
+    confidence += CONTEXT_WEIGHTS.providerAgreement * (options.sourceAgreement - 1);
+  }
+
+  return {
+    issuer: options.issuer,
+    liquidityProviders,
+    creditEnhancementProviders,
+    ratings,
+    administrator,
+    sponsor,
+    confidence: Math.min(confidence, 1.0)
+  };
+}
+
+/**
+ * Combines extractions for one issuer from several documents. Entities are
+ * matched by canonical institution ID and keep the evidence of the document
+ * that named them first; facility fields missing there are filled in from
+ * later documents. The strongest single-document confidence is kept.
+ */
+export function mergeExtractions(extractions: ABCPExtraction[], issuer?: string): ABCPExtraction | null {
+  if (extractions.length === 0) return null;
+
+  const liquidityProviders: LiquidityProvider[] = [];
+  const creditEnhancementProviders: CreditEnhancementProvider[] = [];
+  const ratings: ShortTermRating[] = [];
+
+  for (const extraction of extractions) {
+    for (const provider of extraction.liquidityProviders) {
+      const existing = liquidityProviders.find(candidate => candidate.institutionId === provider.institutionId);
+      if (!existing) {
+        liquidityProviders.push({ ...provider });
+      } else if (provider.facility) {
+        existing.facility = { ...provider.facility, ...existing.facility };
+      }
+    }
+
+    for (const enhancer of extraction.creditEnhancementProviders) {
+      const isDuplicate = creditEnhancementProviders.some(existing => (
+        existing.institutionId === enhancer.institutionId && existing.scope === enhancer.scope
+      ));
+      if (!isDuplicate) creditEnhancementProviders.push(enhancer);
+    }
+
+    for (const rating of extraction.ratings) {
+      const isDuplicate = ratings.some(existing => (
+        existing.agency === rating.agency && existing.subjectId === rating.subjectId && existing.rating === rating.rating
+      ));
+      if (!isDuplicate) ratings.push(rating);
+    }
+  }
+
+  return {
+    issuer: issuer ?? extractions.find(extraction => extraction.issuer)?.issuer,
+    liquidityProviders,
+    creditEnhancementProviders,
+    ratings,
+    administrator: extractions.find(extraction => extraction.administrator)?.administrator,
+    sponsor: extractions.find(extraction => extraction.sponsor)?.sponsor,
+    confidence: Math.max(...extractions.map(extraction => extraction.confidence))
+  };
+}
+
+// ABCP issuers are special-purpose vehicles with names like "Gotham Funding
+// Corporation" or "Old Line Funding, LLC"; cover pages often set them in capitals
+const ISSUER_KEYWORDS = ['Funding', 'Capital', 'Receivables', 'Securitization', 'Asset', 'Assets', 'Finance'];
+const ISSUER_SUFFIXES = ['Corporation', 'Corp\\.?', 'Company', 'LLC', 'L\\.L\\.C\\.', 'Ltd\\.?', 'Limited', 'Inc\\.?', 'Trust', 'DAC', 'plc'];
+const bothCases = (words: string[]) => words.flatMap(word => [word, word.toUpperCase()]).join('|');
+const ISSUER_NAME_PATTERN = new RegExp(
+  `\\b((?:[A-Z][\\w&'-]*\\s+){1,4}(?:${bothCases(ISSUER_KEYWORDS)})(?:,?\\s+(?:${bothCases(ISSUER_SUFFIXES)}))+)`,
+  'g'
+);
+
+// Pages after this rarely name the issuer for the first time
+const ISSUER_SEARCH_PAGES = 5;
+
+/**
+ * Names the ABCP issuer a document is about: the vehicle name that appears
+ * most often on its first pages, counted only if it appears at least twice.
+ */
+export function detectIssuer(segments: TextSegment[]): string | undefined {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const segment of segments.slice(0, ISSUER_SEARCH_PAGES)) {
+    for (const match of segment.text.matchAll(ISSUER_NAME_PATTERN)) {
+      const name = match[1].replace(/\s+/g, ' ').replace(/[,.]+$/, '').trim();
+      const key = issuerKey(name);
+      const entry = counts.get(key) ?? { name, count: 0 };
+      // The mixed-case spelling reads better than a cover page's capitals
+      if (entry.name === entry.name.toUpperCase()) entry.name = name;
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  const best = Array.from(counts.values()).sort((a, b) => b.count - a.count)[0];
+  return best && best.count >= 2 ? best.name : undefined;
+}
+
+// Issuer names compared without case, punctuation or the legal-form suffix,
+// so "Old Line Funding, LLC" and "OLD LINE FUNDING LLC" are one issuer
+export function issuerKey(issuer: string): string {
+  return issuer
+    .toLowerCase()
+    .replace(/[.,]/g, '')
+    .replace(/\s+(?:corporation|corp|company|llc|ltd|limited|inc|trust|dac|plc)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function cleanExtractedText(text: string): string {
+  return text
+    .replace(/[,.;:!?()[\]{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .slice(0, 8)
+    .join(' ');
+}
+
+function extractRatings(segments: TextSegment[]): ShortTermRating[] {
+  const ratings: ShortTermRating[] = [];
+
+  for (const segment of segments) {
+    for (const sentence of splitSentences(segment.text)) {
+      const parsed = parseRatings(sentence.text);
+      if (parsed.length === 0) continue;
+
+      const subject = findRatingSubject(sentence.text);
+      for (const { pattern, ...rating } of parsed) {
+        const isDuplicate = ratings.some(existing => (
+          existing.agency === rating.agency && existing.subjectId === subject?.id
+        ));
+        if (isDuplicate) continue;
+
+        ratings.push({
+          ...rating,
+          subjectId: subject?.id,
+          subjectName: subject?.displayName,
+          evidence: {
+            sentence: sentence.text.replace(/\s+/g, ' ').trim(),
+            pattern,
+            page: segment.page,
+            offset: sentence.offset
+          }
+        });
+      }
+    }
+  }
+
+  return ratings;
+}
+
+function findRatingSubject(sentence: string): { id: string; displayName: string } | undefined {
+  if (PROGRAM_RATING_SUBJECT.test(sentence)) return undefined;
+  const institution = resolveInstitution(sentence);
+  return isListedInstitution(institution.id) ? institution : undefined;
+}
+
+function splitSentences(text: string): { text: string; offset: number }[] {
+  const sentences: { text: string; offset: number }[] = [];
+  let start = 0;
+  for (const boundary of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = (boundary.index ?? 0) + boundary[0].length;
+    sentences.push({ text: text.slice(start, end), offset: start });
+    start = end;
+  }
+  if (start < text.length) {
+    sentences.push({ text: text.slice(start), offset: start });
+  }
+  return sentences.filter(sentence => sentence.text.trim());
+}
+
+function isMeaningfulName(name: string): boolean {
+  return name.toLowerCase().split(' ').some(word => word && !GENERIC_WORDS.has(word));
+}
+
+export function createEntity(name: string, evidence: EntityEvidence): ExtractedEntity {
+  const { id, displayName } = resolveInstitution(name);
+  return { name, institutionId: id, displayName, evidence };
+}
+
+function* findMatches(segments: TextSegment[], role: EntityRole) {
+  for (const rule of EXTRACTION_RULES) {
+    if (rule.role !== role) continue;
+    for (const segment of segments) {
+      for (const match of segment.text.matchAll(rule.pattern)) {
+        if (match[1]) {
+          yield { rule, segment, match };
+        }
+      }
+    }
+  }
+}
+
+function buildEvidence(segment: TextSegment, match: RegExpMatchArray, pattern: RegExp): EntityEvidence {
+  return {
+    sentence: findSentence(segment.text, match.index ?? 0, match[0].length),
+    pattern: pattern.source,
+    page: segment.page,
+    offset: match.index
+  };
+}
+
+const SENTENCE_BOUNDARY = /(?<!\b[A-Z])[.!?]\s|\n/g;
+
+// Widens a match to the sentence (or line, for list-style layouts) that contains it.
+// A period after a lone capital letter ("N.A.", "J.P.") does not end a sentence.
+function findSentence(text: string, start: number, length: number): string {
+  const boundaries = [...text.slice(0, start).matchAll(SENTENCE_BOUNDARY)];
+  const last = boundaries[boundaries.length - 1];
+  const sentenceStart = last ? (last.index ?? 0) + last[0].length : 0;
+  const after = text.slice(start + length);
+  const endMatch = after.match(/(?<!\b[A-Z])[.!?](\s|$)|\n/);
+  const sentenceEnd = start + length + (endMatch?.index !== undefined ? endMatch.index + 1 : after.length);
+  return text.slice(sentenceStart, sentenceEnd).replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import {
+  analyzePdfResponseSchema,
+  API_VERSION,
+  ApiErrorBody,
+  apiErrorSchema,
+  ApiIssue,
+  credentialCreateResponseSchema,
+  CredentialCreateRequest,
+  credentialListResponseSchema,
+  searchProvidersResponseSchema,
+  validateCredentialsResponseSchema,
+  ValidateCredentialsRequest,
+  WebsearchRequest,
+  websearchResponseSchema
+} from '@/utils/ApiContracts';
+import type { SearchFailureReason } from '@/utils/SearchProviders';
+
+// A non-2xx answer from one of our routes, with the structured body when the
+// route sent one
+export class ApiError extends Error {
+  status: number;
+  reason?: SearchFailureReason;
+  // Seconds, from the body or the Retry-After header
+  retryAfter?: number;
+  issues?: ApiIssue[];
+
+  constructor(message: string, status: number, body: Partial<ApiErrorBody> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.reason = body.reason;
+    this.retryAfter = body.retryAfter;
+    this.issues = body.issues;
+  }
+}
+
+// Token for the stored-credential routes, kept for this tab only
+const ACCESS_TOKEN_KEY = 'credential_access_token';
+
+export function setAccessToken(token: string | null): void {
+  if (token) {
+    sessionStorage.setItem(ACCESS_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(ACCESS_TOKEN_KEY);
+  }
+}
+
+function withAccessToken(init: RequestInit): RequestInit {
+  const token = sessionStorage.getItem(ACCESS_TOKEN_KEY);
+  if (!token) return init;
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return { ...init, headers };
+}
+
+/**
+ * Calls a route and checks the answer against its response schema, so the
+ * UI only ever sees data in the shape the contract promises.
+ */
+async function request<T extends z.ZodTypeAny>(path: string, schema: T, init: RequestInit = {}): Promise<z.infer<T>> {
+  const response = await fetch(path, withAccessToken(init));
+  const data: unknown = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    const body = apiErrorSchema.safeParse(data);
+    if (!body.success) {
+      throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+    }
+    const headerRetryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10);
+    throw new ApiError(body.data.error, response.status, {
+      ...body.data,
+      retryAfter: body.data.retryAfter ?? (Number.isNaN(headerRetryAfter) ? undefined : headerRetryAfter)
+    });
+  }
+
+  const version = (data as { version?: unknown } | undefined)?.version;
+  if (version !== API_VERSION) {
+    throw new ApiError(`${path} answered with API version ${String(version)}, expected ${API_VERSION}; reload the page`, response.status);
+  }
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`Unexpected response from ${path}:`, parsed.error.issues);
+    throw new ApiError(`Unexpected response from ${path}`, response.status);
+  }
+  return parsed.data;
+}
+
+function postJson<T extends z.ZodTypeAny>(path: string, schema: T, body: unknown, signal?: AbortSignal): Promise<z.infer<T>> {
+  return request(path, schema, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+}
+
+export const apiClient = {
+  searchProviders: () => request('/api/search-providers', searchProvidersResponseSchema),
+
+  listCredentials: () => request('/api/credentials', credentialListResponseSchema),
+
+  saveCredential: (body: CredentialCreateRequest) => postJson('/api/credentials', credentialCreateResponseSchema, body),
+
+  // 204 has no body, so this is the one call that skips response parsing
+  deleteCredential: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/credentials?id=${encodeURIComponent(id)}`, withAccessToken({ method: 'DELETE' }));
+    if (!response.ok) {
+      const body = apiErrorSchema.safeParse(await response.json().catch(() => undefined));
+      throw new ApiError(body.success ? body.data.error : `HTTP ${response.status}: ${response.statusText}`, response.status, body.data);
+    }
+  },
+
+  validateCredentials: (body: ValidateCredentialsRequest) =>
+    postJson('/api/validate-credentials', validateCredentialsResponseSchema, body),
+
+  websearch: (body: WebsearchRequest, signal?: AbortSignal) =>
+    postJson('/api/websearch', websearchResponseSchema, body, signal),
+
+  analyzePdf: (form: FormData, signal?: AbortSignal) =>
+    request('/api/analyze-pdf', analyzePdfResponseSchema, { method: 'POST', body: form, signal })
+};
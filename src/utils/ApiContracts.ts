@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import type { PDFPage } from '@/server/pdfText';
+import type { ABCPExtraction, TextSegment } from '@/utils/ABCPExtractor';
+import type { FilingMetadata } from '@/utils/FirecrawlService';
+import type {
+  CredentialCheckResult,
+  CredentialField,
+  CredentialSummary,
+  QuotaInfo,
+  SearchFailureReason,
+  SearchProviderDescriptor,
+  SearchResultItem
+} from '@/utils/SearchProviders';
+
+// Request and response shapes of every /api route. The routes validate what
+// they receive against these schemas and ApiClient validates what comes back,
+// so a change on one side fails loudly on the other instead of drifting.
+
+// Bumped when a response changes shape; every successful response carries it
+export const API_VERSION = 1;
+
+// Deepest result window one query may ask for
+export const MAX_RESULTS = 50;
+
+const SEARCH_FAILURE_REASONS = ['rate_limited', 'timeout', 'unavailable', 'circuit_open', 'rejected', 'failed'] as const satisfies readonly SearchFailureReason[];
+
+const credentialFieldsSchema = z.record(z.string(), z.string());
+
+const providerIdSchema = z.string({ required_error: 'Provider is required' }).trim().min(1, 'Provider is required');
+
+// Extraction results are produced and consumed by the same ABCPExtractor
+// types, so only their outer shape is checked here
+const extractionSchema = z.custom<ABCPExtraction>(
+  value => typeof value === 'object' && value !== null && Array.isArray((value as ABCPExtraction).liquidityProviders),
+  'Expected an ABCP extraction'
+);
+
+const versioned = <T extends z.ZodRawShape>(shape: T) => z.object({ version: z.literal(API_VERSION), ...shape });
+
+// The app compiles without strict null checks, where zod infers every key as
+// optional and its types won't line up with the shared interfaces. Object
+// schemas for those interfaces are built here instead, which still fails to
+// compile when a key is added to or dropped from the interface
+function interfaceSchema<T>(shape: { [K in keyof Required<T>]: z.ZodTypeAny }): z.ZodType<T> {
+  return z.object(shape) as z.ZodTypeAny as z.ZodType<T>;
+}
+
+const textSegmentSchema = interfaceSchema<TextSegment>({
+  text: z.string(),
+  page: z.number().optional(),
+  tables: z.array(z.array(z.array(z.string()))).optional(),
+  quality: z.number().optional()
+});
+
+const filingMetadataSchema = interfaceSchema<FilingMetadata>({
+  formType: z.string(),
+  filer: z.string(),
+  cik: z.string(),
+  filingDate: z.string(),
+  accessionNumber: z.string(),
+  indexUrl: z.string()
+});
+
+export const searchResultItemSchema = interfaceSchema<SearchResultItem>({
+  url: z.string(),
+  title: z.string(),
+  content: z.string(),
+  snippet: z.string(),
+  filing: filingMetadataSchema.optional(),
+  segments: z.array(textSegmentSchema).optional(),
+  fullText: z.boolean().optional()
+});
+
+const credentialFieldSchema = interfaceSchema<CredentialField>({
+  id: z.string(),
+  label: z.string(),
+  placeholder: z.string().optional(),
+  secret: z.boolean().optional()
+});
+
+const providerDescriptorSchema = interfaceSchema<SearchProviderDescriptor>({
+  id: z.string(),
+  displayName: z.string(),
+  kind: z.enum(['web', 'filings']),
+  credentials: z.array(credentialFieldSchema),
+  operators: z.array(z.enum(['phrase', 'site', 'or'])),
+  returnsFullText: z.boolean().optional(),
+  usesEngineProfiles: z.boolean().optional(),
+  setupHint: z.string().optional()
+});
+
+const credentialSummarySchema = interfaceSchema<CredentialSummary>({
+  id: z.string(),
+  provider: z.string(),
+  label: z.string(),
+  hints: credentialFieldsSchema,
+  createdAt: z.string()
+});
+
+const quotaSchema = interfaceSchema<QuotaInfo>({
+  remaining: z.number(),
+  limit: z.number().optional(),
+  unit: z.enum(['searches', 'credits']),
+  resetsAt: z.string().optional()
+});
+
+const credentialCheckSchema = interfaceSchema<CredentialCheckResult>({
+  status: z.enum(['valid', 'invalid_key', 'missing_engine_id', 'quota_exhausted', 'network_error', 'check_failed']),
+  message: z.string(),
+  quota: quotaSchema.optional()
+});
+
+// Errors
+
+export const apiIssueSchema = z.object({
+  // Dotted path of the offending field, e.g. "credentials.apiKey"; empty for the body itself
+  path: z.string(),
+  message: z.string()
+});
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  reason: z.enum(SEARCH_FAILURE_REASONS).optional(),
+  // Seconds, mirroring the Retry-After header
+  retryAfter: z.number().optional(),
+  issues: z.array(apiIssueSchema).optional()
+});
+
+export type ApiIssue = z.infer<typeof apiIssueSchema>;
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+
+// The 400 body for input that failed its schema, listing every bad field
+export function invalidRequest(error: z.ZodError): ApiErrorBody {
+  const issues = error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+  return {
+    error: `Invalid request: ${issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ')}`,
+    issues
+  };
+}
+
+// A 400 for input that passed its schema but failed a later check, e.g. a
+// provider that isn't registered
+export function fieldError(path: string, message: string, error = message): ApiErrorBody {
+  return { error, issues: [{ path, message }] };
+}
+
+export function missingCredentialsError(provider: SearchProviderDescriptor, missing: CredentialField[]): ApiErrorBody {
+  return {
+    error: `${provider.displayName} requires ${missing.map(field => field.label).join(', ')}`,
+    issues: missing.map(field => ({ path: `credentials.${field.id}`, message: `${field.label} is required` }))
+  };
+}
+
+// /api/websearch
+
+export const websearchRequestSchema = z.object({
+  query: z.string({ required_error: 'Query is required' }).trim().min(1, 'Query is required'),
+  provider: providerIdSchema.default('google'),
+  // Vault mode refers to a stored key; local mode sends the key itself
+  credentialId: z.string().optional(),
+  credentials: credentialFieldsSchema.optional(),
+  engineId: z.string().optional(),
+  forms: z.array(z.string()).optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  numResults: z.number().int().min(1).max(MAX_RESULTS).default(5),
+  deep: z.boolean().default(false),
+  bypassCache: z.boolean().default(false)
+});
+
+export const websearchResponseSchema = versioned({
+  results: z.array(searchResultItemSchema),
+  query: z.string(),
+  total: z.number(),
+  cached: z.boolean(),
+  cachedAt: z.string().optional()
+});
+
+export type WebsearchRequest = z.input<typeof websearchRequestSchema>;
+export type WebsearchResponse = z.infer<typeof websearchResponseSchema>;
+
+// /api/search-providers
+
+export const searchProvidersResponseSchema = versioned({
+  providers: z.array(providerDescriptorSchema)
+});
+
+export type SearchProvidersResponse = z.infer<typeof searchProvidersResponseSchema>;
+
+// /api/credentials
+
+export const credentialListResponseSchema = versioned({
+  credentials: z.array(credentialSummarySchema),
+  vaultEnabled: z.boolean()
+});
+
+export const credentialCreateRequestSchema = z.object({
+  provider: providerIdSchema,
+  label: z.string().trim().optional(),
+  credentials: credentialFieldsSchema.default({})
+});
+
+export const credentialCreateResponseSchema = versioned({
+  credential: credentialSummarySchema
+});
+
+export const credentialDeleteQuerySchema = z.object({
+  id: z.string({ required_error: 'Credential id is required' }).min(1, 'Credential id is required')
+});
+
+export type CredentialListResponse = z.infer<typeof credentialListResponseSchema>;
+export type CredentialCreateRequest = z.input<typeof credentialCreateRequestSchema>;
+export type CredentialCreateResponse = z.infer<typeof credentialCreateResponseSchema>;
+
+// /api/validate-credentials
+
+export const validateCredentialsRequestSchema = z.object({
+  provider: providerIdSchema,
+  credentials: credentialFieldsSchema.default({}),
+  engineId: z.string().optional()
+});
+
+export const validateCredentialsResponseSchema = versioned({
+  result: credentialCheckSchema
+});
+
+export type ValidateCredentialsRequest = z.input<typeof validateCredentialsRequestSchema>;
+export type ValidateCredentialsResponse = z.infer<typeof validateCredentialsResponseSchema>;
+
+// /api/analyze-pdf (multipart: one or more "file" parts and an optional "issuer")
+
+export const analyzePdfFieldsSchema = z.object({
+  issuer: z.string().trim().optional().transform(issuer => issuer || undefined)
+});
+
+export interface DocumentAnalysis {
+  fileName: string;
+  content: string;
+  pageCount: number;
+  pages: PDFPage[];
+  abcpInfo: ABCPExtraction | null;
+}
+
+// A document that couldn't be read is reported on its own, so the rest of
+// the upload still comes back
+export interface DocumentFailure {
+  fileName: string;
+  error: string;
+}
+
+const pdfPageSchema = interfaceSchema<PDFPage>({
+  pageNumber: z.number(),
+  text: z.string(),
+  tables: z.array(z.object({ rows: z.array(z.array(z.string())) })),
+  source: z.enum(['text', 'ocr']),
+  ocrConfidence: z.number().optional()
+});
+
+const documentAnalysisSchema = interfaceSchema<DocumentAnalysis>({
+  fileName: z.string(),
+  content: z.string(),
+  pageCount: z.number(),
+  pages: z.array(pdfPageSchema),
+  abcpInfo: extractionSchema.nullable()
+});
+
+const documentFailureSchema = interfaceSchema<DocumentFailure>({
+  fileName: z.string(),
+  error: z.string()
+});
+
+export const analyzePdfResponseSchema = versioned({
+  documents: z.array(z.union([documentAnalysisSchema, documentFailureSchema]))
+});
+
+export type AnalyzePdfResponse = z.infer<typeof analyzePdfResponseSchema>;
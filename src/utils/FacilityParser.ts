@@ -0,0 +1,236 @@
+export type FacilityType =
+  | 'revolving_credit'
+  | 'liquidity_asset_purchase'
+  | 'standby'
+  | 'liquidity_loan'
+  | 'liquidity';
+
+export interface FacilityRecord {
+  amount?: number;
+  currency?: string;
+  // As written in the source, e.g. "364-day"
+  tenor?: string;
+  tenorDays?: number;
+  type?: FacilityType;
+  // As written in the source, e.g. "June 30, 2026"
+  expiry?: string;
+}
+
+export interface ScheduleEntry {
+  name: string;
+  facility: FacilityRecord;
+  row: string[];
+}
+
+export const FACILITY_TYPE_LABELS: Record<FacilityType, string> = {
+  revolving_credit: 'Revolving credit facility',
+  liquidity_asset_purchase: 'Liquidity asset purchase agreement',
+  standby: 'Standby facility',
+  liquidity_loan: 'Liquidity loan agreement',
+  liquidity: 'Liquidity facility',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  '$': 'USD',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+};
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  billion: 1e9,
+  bn: 1e9,
+  million: 1e6,
+  mm: 1e6,
+  m: 1e6,
+  thousand: 1e3,
+  k: 1e3,
+};
+
+const TENOR_UNIT_DAYS: Record<string, number> = {
+  day: 1,
+  month: 30,
+  year: 365,
+};
+
+// Checked in order: the first matching description decides the facility type
+const FACILITY_TYPE_PATTERNS: [FacilityType, RegExp][] = [
+  ['liquidity_asset_purchase', /liquidity\s+asset\s+purchase|asset\s+purchase\s+agreement|\bLAPA\b/i],
+  ['revolving_credit', /revolving\s+credit|\brevolver\b/i],
+  ['standby', /stand-?by/i],
+  ['liquidity_loan', /liquidity\s+loan/i],
+  ['liquidity', /liquidity\s+(?:facilit|support|line)|backstop|back-?up\s+(?:liquidity|facilit)/i],
+];
+
+const CURRENCY_TOKEN = /US\$|C\$|A\$|\$|€|£|¥|\b(?:USD|EUR|GBP|JPY|CAD|AUD)\b/i;
+
+const AMOUNT_PATTERN = /(US\$|C\$|A\$|\$|€|£|¥|\b(?:USD|EUR|GBP|JPY|CAD|AUD)\b)\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?:\s*(billion|million|thousand|bn|mm|m|k)\b)?/i;
+
+const TENOR_PATTERN = /\b(\d{1,4})\s*[- ]\s*(day|month|year)s?\b/i;
+
+// Header cells of a facility schedule, checked in this order for each column
+const SCHEDULE_COLUMN_PATTERNS: [keyof ScheduleColumns, RegExp][] = [
+  ['expiry', /expir|maturity|termination|scheduled|end\s+date/i],
+  ['amount', /commitment|amount|facility\s+(?:size|limit)|\blimit\b/i],
+  ['name', /\b(?:bank|provider|lender|institution|counterparty|purchaser)s?\b/i],
+  ['type', /\btype\b|^facility$/i],
+];
+
+const HEADER_UNIT_PATTERNS: [number, RegExp][] = [
+  [1e9, /billions?|\bbn\b/i],
+  [1e6, /millions?|\bmm\b|\$\s?m\b/i],
+  [1e3, /thousands?|000s|\(000\)/i],
+];
+
+const SUMMARY_ROW = /^(?:total|aggregate|sum)\b/i;
+
+interface ScheduleColumns {
+  name?: number;
+  amount?: number;
+  expiry?: number;
+  type?: number;
+}
+
+export function parseAmount(text: string): Pick<FacilityRecord, 'amount' | 'currency'> {
+  const match = text.match(AMOUNT_PATTERN);
+  if (!match) return {};
+
+  const value = parseFloat(match[2].replace(/,/g, ''));
+  const multiplier = match[3] ? AMOUNT_MULTIPLIERS[match[3].toLowerCase()] : 1;
+
+  return {
+    amount: Math.round(value * multiplier),
+    currency: normalizeCurrency(match[1]),
+  };
+}
+
+function normalizeCurrency(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  return CURRENCY_SYMBOLS[upper] ?? upper;
+}
+
+/**
+ * Reads the committed amount, tenor and facility type from the text that
+ * names a liquidity provider. Returns undefined when the text describes no
+ * facility at all, so bare name mentions don't get empty records.
+ */
+export function parseFacility(text: string): FacilityRecord | undefined {
+  const facility: FacilityRecord = { ...parseAmount(text) };
+
+  const tenorMatch = text.match(TENOR_PATTERN);
+  if (tenorMatch) {
+    const unit = tenorMatch[2].toLowerCase();
+    facility.tenor = `${tenorMatch[1]}-${unit}`;
+    facility.tenorDays = parseInt(tenorMatch[1], 10) * TENOR_UNIT_DAYS[unit];
+  }
+
+  const type = FACILITY_TYPE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+  if (type) {
+    facility.type = type;
+  }
+
+  if (facility.amount === undefined && !facility.type) {
+    return undefined;
+  }
+  return facility;
+}
+
+/**
+ * Reads a "Bank | Commitment | Expiry" style table rebuilt from a PDF. The
+ * header row decides which column is which; tables without a recognizable
+ * name column plus an amount or expiry column are not facility schedules.
+ */
+export function parseFacilitySchedule(rows: string[][]): ScheduleEntry[] {
+  const headerIndex = rows.slice(0, 3).findIndex(row => {
+    const columns = findScheduleColumns(row);
+    return columns.name !== undefined && (columns.amount !== undefined || columns.expiry !== undefined);
+  });
+  if (headerIndex === -1) return [];
+
+  const header = rows[headerIndex];
+  const columns = findScheduleColumns(header);
+  const entries: ScheduleEntry[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const name = row[columns.name!]?.trim();
+    if (!name || SUMMARY_ROW.test(name)) continue;
+
+    const rowText = row.join(' ');
+    const facility: FacilityRecord = {};
+
+    if (columns.amount !== undefined && row[columns.amount]) {
+      Object.assign(facility, parseScheduleAmount(row[columns.amount], header[columns.amount]));
+    }
+    if (columns.expiry !== undefined && row[columns.expiry]) {
+      facility.expiry = row[columns.expiry].trim();
+    }
+
+    const tenorMatch = rowText.match(TENOR_PATTERN);
+    if (tenorMatch) {
+      const unit = tenorMatch[2].toLowerCase();
+      facility.tenor = `${tenorMatch[1]}-${unit}`;
+      facility.tenorDays = parseInt(tenorMatch[1], 10) * TENOR_UNIT_DAYS[unit];
+    }
+
+    const typeText = columns.type !== undefined ? row[columns.type] : rowText;
+    facility.type = FACILITY_TYPE_PATTERNS.find(([, pattern]) => pattern.test(typeText ?? ''))?.[0] ?? 'liquidity';
+
+    entries.push({ name, facility, row });
+  }
+
+  return entries;
+}
+
+function findScheduleColumns(header: string[]): ScheduleColumns {
+  const columns: ScheduleColumns = {};
+  header.forEach((cell, index) => {
+    const role = SCHEDULE_COLUMN_PATTERNS.find(([key, pattern]) => columns[key] === undefined && pattern.test(cell))?.[0];
+    if (role) columns[role] = index;
+  });
+  return columns;
+}
+
+// Schedule cells often hold bare numbers, with the currency and unit in the
+// header ("Commitment (US$ millions)"); a unit written in the cell wins
+function parseScheduleAmount(cell: string, header = ''): Pick<FacilityRecord, 'amount' | 'currency'> {
+  const fromCell = parseAmount(cell);
+  if (fromCell.amount !== undefined && /\d\s*(?:billion|million|thousand|bn|mm|m|k)\b/i.test(cell)) {
+    return fromCell;
+  }
+
+  const number = cell.match(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/);
+  if (!number) return {};
+
+  const multiplier = HEADER_UNIT_PATTERNS.find(([, pattern]) => pattern.test(header))?.[0] ?? 1;
+  const headerCurrency = header.match(CURRENCY_TOKEN)?.[0];
+
+  return {
+    amount: Math.round(parseFloat(number[0].replace(/,/g, '')) * multiplier),
+    currency: fromCell.currency ?? (headerCurrency ? normalizeCurrency(headerCurrency) : undefined),
+  };
+}
+
+export function formatFacilityAmount(amount: number, currency = 'USD'): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString('en-US')}`;
+  }
+}
+
+export function describeFacility(facility: FacilityRecord): string {
+  return [
+    facility.amount !== undefined ? formatFacilityAmount(facility.amount, facility.currency) : null,
+    facility.tenor,
+    facility.type ? FACILITY_TYPE_LABELS[facility.type] : null,
+    facility.expiry ? `expires ${facility.expiry}` : null,
+  ].filter(Boolean).join(' · ');
+}
@@ -1,21 +1,169 @@
-interface ABCPResult {
+import { ABCPExtraction, createEntity, ExtractedEntity, extractABCPInfo } from '@/utils/ABCPExtractor';
+import { adaptQuery, BUILTIN_SEARCH_PROVIDERS, CredentialCheckResult, CredentialSummary, findProviderDescriptor, maskCredentialFields, SearchFailureReason, SearchProviderDescriptor, SearchProviderError, SearchResultItem } from '@/utils/SearchProviders';
+import { getLocalCredentials, isLocalKeyStoreUnlocked, removeLocalCredential, setLocalCredential } from '@/utils/LocalKeyStore';
+import { runWithConcurrency } from '@/utils/TaskPool';
+import { ApiError, apiClient, setAccessToken } from '@/utils/ApiClient';
+import type { WebsearchResponse } from '@/utils/ApiContracts';
+
+// Filing details returned by the EDGAR provider
+export interface FilingMetadata {
+  formType: string;
+  filer: string;
+  cik: string;
+  filingDate: string;
+  accessionNumber: string;
+  indexUrl: string;
+}
+
+export interface ABCPResult extends ABCPExtraction {
   issuer: string;
-  liquidityProviders: string[];
-  administrator?: string;
-  sponsor?: string;
-  confidence: number;
   source: string;
+  filing?: FilingMetadata;
+  // IDs of the search providers that returned the source
+  providers?: string[];
+}
+
+interface SearchHit extends SearchResultItem {
+  providers: string[];
 }
 
-interface SearchHistory {
+// A Google Programmable Search Engine; teams keep several, each scoped to a
+// different set of sites (e.g. "Filings only" or "News")
+export interface CSEProfile {
+  id: string;
+  name: string;
+  engineId: string;
+}
+
+export interface SearchOptions {
+  cseProfileId?: string;
+  // Download each hit and extract from the full page instead of the snippet
+  deep?: boolean;
+  // Ask the server for fresh results even when it has them cached
+  bypassCache?: boolean;
+  // Queries in flight at once; defaults to the stored setting
+  concurrency?: number;
+  // Results read per query; defaults to the stored setting
+  depth?: number;
+  // Aborting stops new queries, cancels running ones and keeps what was found
+  signal?: AbortSignal;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+export interface SearchProgress {
+  completed: number;
+  total: number;
+}
+
+// A query that returned nothing because its provider failed
+export interface SkippedQuery {
+  query: string;
+  provider: string;
+  reason: SearchFailureReason;
+  message: string;
+}
+
+export interface SearchOutcome {
+  results: ABCPResult[];
+  cancelled: boolean;
+  queriesCompleted: number;
+  queriesTotal: number;
+  // Queries the server answered from its cache
+  queriesCached: number;
+  // Distinct hits read, and how many of them yielded an extraction
+  resultsExamined: number;
+  resultsWithFindings: number;
+  skipped: SkippedQuery[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_SEARCH_DEPTH = 10;
+
+export interface SearchHistory {
   id: string;
   issuer: string;
   timestamp: number;
   results: ABCPResult[];
+  // Entries saved before profiles existed have none
+  profile?: { id: string; name: string };
+}
+
+export type ProviderCredentials = Record<string, string>;
+
+export type CredentialStorage = 'vault' | 'local';
+
+export type VaultAccess = 'granted' | 'token_required' | 'disabled';
+
+// A named search setup: which stored credential each provider searches with
+// (a provider is enabled by having one), how many results each query reads,
+// and the web queries sent for an issuer
+export interface SearchProfile {
+  id: string;
+  name: string;
+  credentials: Record<string, string>;
+  depth: number;
+  queryTemplates: string[];
+}
+
+export const ISSUER_PLACEHOLDER = '{issuer}';
+
+export const DEFAULT_QUERY_TEMPLATES = [
+  `site:moodys.com OR site:standardandpoors.com OR site:fitchratings.com "${ISSUER_PLACEHOLDER}" ABCP liquidity facilities`,
+  `"${ISSUER_PLACEHOLDER}" ABCP asset backed commercial paper liquidity provider bank facility`,
+  `"${ISSUER_PLACEHOLDER}" commercial paper conduit administrator sponsor liquidity support`,
+  `"${ISSUER_PLACEHOLDER}" ABCP prospectus liquidity facility credit enhancement banking`,
+  `site:bloomberg.com OR site:reuters.com "${ISSUER_PLACEHOLDER}" ABCP liquidity provider rating`,
+  `"${ISSUER_PLACEHOLDER}" asset backed commercial paper backup liquidity committed facility`
+];
+
+// A template without the placeholder still searches for the issuer
+export function fillQueryTemplate(template: string, issuerName: string): string {
+  return template.includes(ISSUER_PLACEHOLDER)
+    ? template.split(ISSUER_PLACEHOLDER).join(issuerName)
+    : `"${issuerName}" ${template}`;
+}
+
+// Same page, different spelling: scheme, "www.", trailing slashes, fragments
+// and tracking parameters don't make two hits different
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !/^(?:utm_\w+|gclid|fbclid|ref|source)$/i.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${pathname}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+// Keeps the richest copy of a page: full text beats a snippet
+function addSearchHit(hits: Map<string, SearchHit>, item: SearchResultItem, providerId: string): void {
+  const key = normalizeUrl(item.url);
+  const existing = hits.get(key);
+  if (!existing) {
+    hits.set(key, { ...item, providers: [providerId] });
+    return;
+  }
+
+  if (!existing.providers.includes(providerId)) {
+    existing.providers.push(providerId);
+  }
+  const isRicher = (!!item.segments && !existing.segments) || (item.fullText && !existing.fullText) ||
+    (!existing.segments && (item.content?.length ?? 0) > (existing.content?.length ?? 0));
+  if (isRicher) {
+    hits.set(key, { ...existing, ...item, providers: existing.providers });
+  }
 }
 
 export class WebSearchService {
   private static instance: WebSearchService;
+  private static providers: Promise<SearchProviderDescriptor[]> | null = null;
+  private static credentialStorage: Promise<CredentialStorage> | null = null;
+  private static profileListeners = new Set<() => void>();
 
   private constructor() {}
 
@@ -26,210 +174,557 @@ export class WebSearchService {
     return WebSearchService.instance;
   }
 
-  static setApiKey(apiKey: string): void {
-    localStorage.setItem('web_search_api_key', apiKey);
+  // Registered providers come from the server so internal ones show up too;
+  // the built-in descriptors stand in when the route can't be reached
+  static getProviders(): Promise<SearchProviderDescriptor[]> {
+    if (!WebSearchService.providers) {
+      WebSearchService.providers = apiClient.searchProviders()
+        .then(data => data.providers)
+        .catch(error => {
+          console.warn('Could not load search providers, using built-in list:', error);
+          WebSearchService.providers = null;
+          return BUILTIN_SEARCH_PROVIDERS;
+        });
+    }
+    return WebSearchService.providers;
   }
 
-  static getApiKey(): string | null {
-    return localStorage.getItem('web_search_api_key');
+  // "vault" when the server keeps keys (and the browser only their IDs),
+  // "local" for single-user servers where keys stay in this browser,
+  // encrypted under a passphrase
+  static getCredentialStorage(): Promise<CredentialStorage> {
+    if (!WebSearchService.credentialStorage) {
+      WebSearchService.credentialStorage = apiClient.listCredentials()
+        .then((data): CredentialStorage => (data.vaultEnabled ? 'vault' : 'local'))
+        // Only a vault asks for an access token
+        .catch((error): CredentialStorage => {
+          if (error instanceof ApiError && (error.status === 401 || error.status === 503)) return 'vault';
+          throw error;
+        })
+        .catch(error => {
+          WebSearchService.credentialStorage = null;
+          throw error;
+        });
+    }
+    return WebSearchService.credentialStorage;
   }
 
-  static setSelectedApi(api: string): void {
-    localStorage.setItem('selected_search_api', api);
+  // Whether this tab may use the vault: "token_required" until an accepted
+  // access token is entered, "disabled" when the server has none configured
+  static async getVaultAccess(): Promise<VaultAccess> {
+    try {
+      await apiClient.listCredentials();
+      return 'granted';
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return 'token_required';
+      if (error instanceof ApiError && error.status === 503) return 'disabled';
+      throw error;
+    }
   }
 
-  static getSelectedApi(): string {
-    return localStorage.getItem('selected_search_api') || 'google';
+  // Rejected tokens are forgotten so the next request doesn't resend them
+  static async setVaultAccessToken(token: string): Promise<VaultAccess> {
+    setAccessToken(token);
+    const access = await WebSearchService.getVaultAccess();
+    if (access !== 'granted') setAccessToken(null);
+    return access;
   }
 
-  static hasApiKey(): boolean {
-    return !!WebSearchService.getApiKey();
+  static async listCredentials(): Promise<CredentialSummary[]> {
+    if (await WebSearchService.getCredentialStorage() === 'local') {
+      return Object.entries(getLocalCredentials()).map(([id, credential]) => ({
+        id,
+        provider: credential.provider,
+        label: credential.label,
+        hints: maskCredentialFields(credential.fields),
+        createdAt: credential.createdAt
+      }));
+    }
+
+    const { credentials } = await apiClient.listCredentials();
+    return credentials;
   }
 
-  async searchABCPLiquidityProviders(issuerName: string): Promise<ABCPResult[]> {
-    // Specialized search queries for financial websites and rating agencies
-    const searchQueries = [
-      `site:sec.gov "${issuerName}" ABCP liquidity provider commercial paper filing`,
-      `site:moodys.com OR site:standardandpoors.com OR site:fitchratings.com "${issuerName}" ABCP liquidity facilities`,
-      `"${issuerName}" ABCP asset backed commercial paper liquidity provider bank facility`,
-      `"${issuerName}" commercial paper conduit administrator sponsor liquidity support`,
-      `site:edgar.sec.gov "${issuerName}" asset backed commercial paper program administrator`,
-      `"${issuerName}" ABCP prospectus liquidity facility credit enhancement banking`,
-      `site:bloomberg.com OR site:reuters.com "${issuerName}" ABCP liquidity provider rating`,
-      `"${issuerName}" asset backed commercial paper backup liquidity committed facility`
-    ];
+  // Sends the key to the server-side vault and keeps only its ID; without a
+  // vault the key is encrypted into the local store under an ID of its own.
+  // Either way a provider can hold several keys, one per profile if need be
+  static async saveCredential(providerId: string, label: string, credentials: ProviderCredentials): Promise<CredentialSummary> {
+    if (await WebSearchService.getCredentialStorage() === 'local') {
+      const id = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+      const createdAt = new Date().toISOString();
+      await setLocalCredential(id, { provider: providerId, label: label || providerId, fields: credentials, createdAt });
+      WebSearchService.setProviderCredential(providerId, id);
+      return { id, provider: providerId, label: label || providerId, hints: maskCredentialFields(credentials), createdAt };
+    }
 
-    const results: ABCPResult[] = [];
-    let searchAttempts = 0;
+    const { credential } = await apiClient.saveCredential({ provider: providerId, label, credentials });
+    WebSearchService.setProviderCredential(providerId, credential.id);
+    return credential;
+  }
 
-    for (const query of searchQueries) {
-      searchAttempts++;
-      try {
-        // Using mock web search API for demonstration
-        const searchResponse = await this.performWebSearch(query);
-        
-        if (searchResponse?.results && Array.isArray(searchResponse.results)) {
-          for (const item of searchResponse.results.slice(0, 3)) {
-            const extractedData = this.extractABCPInfoFromText(item.content || item.snippet || '', issuerName);
-            if (extractedData) {
-              results.push({
-                ...extractedData,
-                source: item.url || item.link || 'Web Search'
-              });
-            }
-          }
-        }
-      } catch (error) {
-        console.warn(`Search attempt ${searchAttempts} failed:`, error);
-      }
+  static async deleteCredential(credentialId: string): Promise<void> {
+    if (await WebSearchService.getCredentialStorage() === 'local') {
+      await removeLocalCredential(credentialId);
+    } else {
+      // Already gone from the vault is as good as deleted
+      await apiClient.deleteCredential(credentialId).catch(error => {
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      });
     }
 
-    // Save search to history
-    this.saveSearchToHistory(issuerName, results);
+    // The key is gone from every profile that used it
+    WebSearchService.setSearchProfiles(WebSearchService.getSearchProfiles().map(profile => ({
+      ...profile,
+      credentials: Object.fromEntries(Object.entries(profile.credentials).filter(([, selectedId]) => selectedId !== credentialId))
+    })));
+  }
+
+  // Which stored credential each provider searches with in the active
+  // profile; choosing one enables the provider
+  static setProviderCredential(providerId: string, credentialId: string): void {
+    const profile = WebSearchService.getActiveProfile();
+    WebSearchService.saveSearchProfile({ ...profile, credentials: { ...profile.credentials, [providerId]: credentialId } });
+  }
 
-    if (results.length === 0) {
-      throw new Error(`Could not find relevant information after ${searchAttempts} search attempts. Please try a different issuer name or check if the ABCP program exists.`);
+  static getProviderCredential(providerId: string): string | undefined {
+    return WebSearchService.getActiveProfile().credentials[providerId];
+  }
+
+  // Disconnects the active profile's providers, or every profile's when the
+  // keys themselves are gone
+  static clearCredentials(scope: 'active' | 'all' = 'active'): void {
+    if (scope === 'all') {
+      WebSearchService.setSearchProfiles(WebSearchService.getSearchProfiles().map(profile => ({ ...profile, credentials: {} })));
+      return;
     }
+    WebSearchService.saveSearchProfile({ ...WebSearchService.getActiveProfile(), credentials: {} });
+  }
 
-    const uniqueResults = this.removeDuplicates(results);
-    return uniqueResults.sort((a, b) => b.confidence - a.confidence);
+  // Runs a test call with a key that hasn't been saved yet
+  static async validateCredentials(
+    providerId: string,
+    credentials: ProviderCredentials,
+    engineId?: string
+  ): Promise<CredentialCheckResult> {
+    const { result } = await apiClient.validateCredentials({ provider: providerId, credentials, engineId });
+    return result;
   }
 
-  private async performWebSearch(query: string): Promise<any> {
-    const apiKey = WebSearchService.getApiKey();
-    const selectedApi = WebSearchService.getSelectedApi();
-    
-    if (!apiKey) {
-      throw new Error('API key not configured');
+  static hasLegacyCredentials(): boolean {
+    return Object.keys(WebSearchService.readLegacyCredentials()).length > 0;
+  }
+
+  /**
+   * Older versions kept raw keys in localStorage, under "search_credentials"
+   * per provider or "web_search_api_key" for the selected one. Each is moved
+   * into the vault, or into the local store once it is unlocked, and removed
+   * as soon as it is stored.
+   */
+  static async migrateLocalCredentials(): Promise<void> {
+    const stored = WebSearchService.readLegacyCredentials();
+    const providerIds = Object.keys(stored);
+    if (providerIds.length === 0) return;
+
+    const storage = await WebSearchService.getCredentialStorage();
+    if (storage === 'local' && !isLocalKeyStoreUnlocked()) return;
+
+    const providers = await WebSearchService.getProviders();
+    for (const providerId of providerIds) {
+      const label = `${findProviderDescriptor(providers, providerId)?.displayName ?? providerId} (migrated)`;
+      await WebSearchService.saveCredential(providerId, label, stored[providerId]);
+      delete stored[providerId];
+      localStorage.setItem('search_credentials', JSON.stringify(stored));
     }
+    localStorage.removeItem('search_credentials');
+    localStorage.removeItem('web_search_api_key');
+    localStorage.removeItem('enabled_search_providers');
+    localStorage.removeItem('selected_search_api');
+  }
 
+  private static readLegacyCredentials(): Record<string, ProviderCredentials> {
+    let stored: Record<string, ProviderCredentials> = {};
     try {
-      const response = await fetch('/api/websearch', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query,
-          apiKey,
-          apiType: selectedApi,
-          numResults: 5
-        })
-      });
+      stored = JSON.parse(localStorage.getItem('search_credentials') || '{}');
+    } catch {
+      stored = {};
+    }
+    const legacyKey = localStorage.getItem('web_search_api_key');
+    if (legacyKey) {
+      stored[WebSearchService.legacyEnabledProviders()[0] ?? 'google'] ??= { apiKey: legacyKey };
+    }
+    return stored;
+  }
+
+  // Older versions enabled providers under "enabled_search_providers", and
+  // before that kept a single "selected_search_api"
+  private static legacyEnabledProviders(): string[] {
+    try {
+      const enabled = localStorage.getItem('enabled_search_providers');
+      if (enabled) return JSON.parse(enabled);
+    } catch {
+      return [];
+    }
+    const selected = localStorage.getItem('selected_search_api');
+    return selected ? [selected] : [];
+  }
+
+  // Every query is sent to all providers the active profile has a key for
+  static setEnabledProviders(providerIds: string[]): void {
+    const profile = WebSearchService.getActiveProfile();
+    WebSearchService.saveSearchProfile({
+      ...profile,
+      credentials: Object.fromEntries(Object.entries(profile.credentials).filter(([providerId]) => providerIds.includes(providerId)))
+    });
+  }
+
+  static getEnabledProviders(): string[] {
+    return Object.keys(WebSearchService.getActiveProfile().credentials);
+  }
+
+  static getSearchProfiles(): SearchProfile[] {
+    try {
+      const profiles: SearchProfile[] = JSON.parse(localStorage.getItem('search_profiles') || '[]');
+      if (profiles.length > 0) return profiles;
+    } catch {
+      // Unreadable profiles are replaced by the default on the next save
+    }
+    return [WebSearchService.defaultProfile()];
+  }
+
+  static setSearchProfiles(profiles: SearchProfile[]): void {
+    localStorage.setItem('search_profiles', JSON.stringify(profiles));
+    WebSearchService.profileListeners.forEach(listener => listener());
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  static createSearchProfile(name: string): SearchProfile {
+    const profile: SearchProfile = {
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      name,
+      credentials: {},
+      depth: DEFAULT_SEARCH_DEPTH,
+      queryTemplates: [...DEFAULT_QUERY_TEMPLATES]
+    };
+    WebSearchService.saveSearchProfile(profile);
+    return profile;
+  }
+
+  static saveSearchProfile(profile: SearchProfile): void {
+    const profiles = WebSearchService.getSearchProfiles();
+    const index = profiles.findIndex(candidate => candidate.id === profile.id);
+    if (index === -1) {
+      profiles.push(profile);
+    } else {
+      profiles[index] = profile;
+    }
+    WebSearchService.setSearchProfiles(profiles);
+  }
+
+  // The last profile can't be deleted; there is always one to search with
+  static deleteSearchProfile(profileId: string): void {
+    const remaining = WebSearchService.getSearchProfiles().filter(profile => profile.id !== profileId);
+    if (remaining.length > 0) {
+      WebSearchService.setSearchProfiles(remaining);
+    }
+  }
+
+  static setActiveProfile(profileId: string): void {
+    localStorage.setItem('active_search_profile', profileId);
+    WebSearchService.profileListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Calls `listener` whenever the profiles or the active profile change, in
+   * this tab or another one. Returns a function that stops listening.
+   */
+  static onSearchProfilesChange(listener: () => void): () => void {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === 'search_profiles' || event.key === 'active_search_profile') {
+        listener();
       }
+    };
+    WebSearchService.profileListeners.add(listener);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      WebSearchService.profileListeners.delete(listener);
+      window.removeEventListener('storage', onStorage);
+    };
+  }
 
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error(`${selectedApi} search failed:`, error);
-      throw error;
+  // Falls back to the first profile when the stored one was deleted
+  static getActiveProfile(): SearchProfile {
+    const profiles = WebSearchService.getSearchProfiles();
+    const activeId = localStorage.getItem('active_search_profile');
+    return profiles.find(profile => profile.id === activeId) ?? profiles[0];
+  }
+
+  /**
+   * Settings from before profiles become the "Default" profile. Runs once at
+   * startup, before anything renders, so the profile getters never write.
+   * The legacy provider list stays until plain-text keys that depend on it
+   * are migrated.
+   */
+  static migrateSearchProfiles(): void {
+    if (localStorage.getItem('search_profiles') !== null) return;
+
+    let credentialIds: Record<string, string> = {};
+    try {
+      credentialIds = JSON.parse(localStorage.getItem('search_credential_ids') || '{}');
+    } catch {
+      credentialIds = {};
+    }
+    const depth = parseInt(localStorage.getItem('search_depth') ?? '', 10);
+
+    WebSearchService.setSearchProfiles([{
+      ...WebSearchService.defaultProfile(),
+      credentials: Object.fromEntries(WebSearchService.legacyEnabledProviders()
+        .filter(providerId => credentialIds[providerId])
+        .map(providerId => [providerId, credentialIds[providerId]])),
+      depth: depth > 0 ? depth : DEFAULT_SEARCH_DEPTH
+    }]);
+    localStorage.removeItem('search_credential_ids');
+    localStorage.removeItem('search_depth');
+    if (!WebSearchService.hasLegacyCredentials()) {
+      localStorage.removeItem('enabled_search_providers');
+      localStorage.removeItem('selected_search_api');
     }
   }
 
-  private extractABCPInfoFromText(content: string, issuerName: string): ABCPResult | null {
-    const text = content.toLowerCase();
-    const issuerLower = issuerName.toLowerCase();
-    
-    if (!text.includes(issuerLower) && !text.includes('abcp') && !text.includes('commercial paper')) {
-      return null;
+  // Stands in, unsaved, until a profile is stored
+  private static defaultProfile(): SearchProfile {
+    return {
+      id: 'default',
+      name: 'Default',
+      credentials: {},
+      depth: DEFAULT_SEARCH_DEPTH,
+      queryTemplates: [...DEFAULT_QUERY_TEMPLATES]
+    };
+  }
+
+  static setCSEProfiles(profiles: CSEProfile[]): void {
+    localStorage.setItem('google_cse_profiles', JSON.stringify(profiles));
+  }
+
+  static getCSEProfiles(): CSEProfile[] {
+    try {
+      const profiles = localStorage.getItem('google_cse_profiles');
+      return profiles ? JSON.parse(profiles) : [];
+    } catch {
+      return [];
     }
+  }
 
-    const liquidityProviders: string[] = [];
-    let administrator: string | undefined;
-    let sponsor: string | undefined;
-    let confidence = 0;
-
-    const liquidityPatterns = [
-      /liquidity\s+provider[s]?[:\s]+([^.]+)/gi,
-      /liquidity\s+facilit[y|ies][:\s]+([^.]+)/gi,
-      /backup\s+liquidity[:\s]+([^.]+)/gi,
-      /committed\s+liquidity[:\s]+([^.]+)/gi,
-      /standby\s+liquidity[:\s]+([^.]+)/gi
-    ];
+  static setDefaultCSEProfile(profileId: string): void {
+    localStorage.setItem('default_cse_profile', profileId);
+  }
 
-    const adminPatterns = [
-      /administrator[:\s]+([^.]+)/gi,
-      /program\s+administrator[:\s]+([^.]+)/gi,
-      /administrative\s+agent[:\s]+([^.]+)/gi
-    ];
+  // Falls back to the first profile when the stored default was deleted
+  static getDefaultCSEProfile(): CSEProfile | undefined {
+    const profiles = WebSearchService.getCSEProfiles();
+    const defaultId = localStorage.getItem('default_cse_profile');
+    return profiles.find(profile => profile.id === defaultId) ?? profiles[0];
+  }
+
+  static setConcurrency(limit: number): void {
+    localStorage.setItem('search_concurrency', String(limit));
+  }
+
+  static getConcurrency(): number {
+    const limit = parseInt(localStorage.getItem('search_concurrency') ?? '', 10);
+    return limit > 0 ? limit : DEFAULT_CONCURRENCY;
+  }
+
+  static setSearchDepth(depth: number): void {
+    WebSearchService.saveSearchProfile({ ...WebSearchService.getActiveProfile(), depth });
+  }
+
+  static getSearchDepth(): number {
+    return WebSearchService.getActiveProfile().depth || DEFAULT_SEARCH_DEPTH;
+  }
 
-    const sponsorPatterns = [
-      /sponsor[:\s]+([^.]+)/gi,
-      /program\s+sponsor[:\s]+([^.]+)/gi,
-      /sponsored\s+by[:\s]+([^.]+)/gi
+  static isConfigured(): boolean {
+    return WebSearchService.getEnabledProviders().some(providerId => WebSearchService.getProviderCredential(providerId) !== undefined);
+  }
+
+  static hasCredential(provider: SearchProviderDescriptor): boolean {
+    return provider.credentials.length === 0 || WebSearchService.getProviderCredential(provider.id) !== undefined;
+  }
+
+  async searchABCPLiquidityProviders(issuerName: string, options: SearchOptions = {}): Promise<SearchOutcome> {
+    const providers = await WebSearchService.getProviders();
+    const webProviders = WebSearchService.getEnabledProviders()
+      .map(providerId => findProviderDescriptor(providers, providerId))
+      .filter((provider): provider is SearchProviderDescriptor => !!provider && provider.kind === 'web')
+      .filter(provider => WebSearchService.hasCredential(provider));
+    if (webProviders.length === 0) {
+      throw new Error('No search provider is configured');
+    }
+    const filingsProvider = providers.find(provider => provider.kind === 'filings');
+
+    // Specialized search queries for financial websites and rating agencies;
+    // filings go to the filings provider rather than site:sec.gov
+    const filingQueries = [
+      `"${issuerName}" "liquidity"`,
+      `"${issuerName}" "commercial paper"`
+    ];
+    const profile = WebSearchService.getActiveProfile();
+    const templates = profile.queryTemplates.length > 0 ? profile.queryTemplates : DEFAULT_QUERY_TEMPLATES;
+    const webQueries = templates.map(template => fillQueryTemplate(template, issuerName));
+    // Every web query fans out to each configured provider
+    const searchQueries = [
+      ...(filingsProvider ? filingQueries.map(query => ({ query, provider: filingsProvider })) : []),
+      ...webQueries.flatMap(query => webProviders.map(provider => ({ query, provider })))
     ];
 
-    liquidityPatterns.forEach(pattern => {
-      const matches = content.matchAll(pattern);
-      for (const match of matches) {
-        if (match[1]) {
-          const provider = this.cleanExtractedText(match[1]);
-          if (provider && !liquidityProviders.includes(provider)) {
-            liquidityProviders.push(provider);
-            confidence += 0.3;
-          }
+    // Resolved once, so a missing engine ID fails the search instead of every query
+    const engineId = webProviders.some(provider => provider.usesEngineProfiles)
+      ? WebSearchService.resolveEngineId(options.cseProfileId)
+      : undefined;
+
+    // Hits are merged by URL across queries and providers, so a page found
+    // several times is extracted once and remembers who found it
+    const hits = new Map<string, SearchHit>();
+    const { signal } = options;
+    let queriesCompleted = 0;
+    let queriesCached = 0;
+    const depth = options.depth ?? WebSearchService.getSearchDepth();
+    const skipped: SkippedQuery[] = [];
+    options.onProgress?.({ completed: 0, total: searchQueries.length });
+
+    await runWithConcurrency(searchQueries, options.concurrency ?? WebSearchService.getConcurrency(), async ({ query, provider }, index) => {
+      try {
+        const searchResponse = await this.performWebSearch(
+          adaptQuery(query, provider),
+          provider,
+          provider.usesEngineProfiles ? engineId : undefined,
+          { ...options, depth }
+        );
+        
+        for (const item of searchResponse.results) {
+          addSearchHit(hits, item, provider.id);
         }
+        queriesCompleted++;
+        if (searchResponse.cached) queriesCached++;
+      } catch (error) {
+        if (signal?.aborted) return;
+        queriesCompleted++;
+        console.warn(`Search attempt ${index + 1} failed:`, error);
+        skipped.push({
+          query,
+          provider: provider.displayName,
+          reason: error instanceof SearchProviderError ? error.reason : 'failed',
+          message: error instanceof Error ? error.message : 'Search failed'
+        });
       }
-    });
+      options.onProgress?.({ completed: queriesCompleted, total: searchQueries.length });
+    }, signal);
 
-    adminPatterns.forEach(pattern => {
-      const matches = content.matchAll(pattern);
-      for (const match of matches) {
-        if (match[1] && !administrator) {
-          administrator = this.cleanExtractedText(match[1]);
-          confidence += 0.2;
-          break;
-        }
-      }
-    });
+    const cancelled = !!signal?.aborted;
 
-    sponsorPatterns.forEach(pattern => {
-      const matches = content.matchAll(pattern);
-      for (const match of matches) {
-        if (match[1] && !sponsor) {
-          sponsor = this.cleanExtractedText(match[1]);
-          confidence += 0.2;
-          break;
-        }
+    const results: ABCPResult[] = [];
+    for (const hit of hits.values()) {
+      const extractedData = extractABCPInfo(hit.segments ?? (hit.content || hit.snippet || ''), {
+        issuer: issuerName,
+        requireContext: true,
+        sourceAgreement: hit.providers.length
+      });
+      if (extractedData) {
+        results.push({
+          ...extractedData,
+          issuer: issuerName,
+          source: hit.url || 'Web Search',
+          filing: hit.filing,
+          providers: hit.providers
+        });
       }
-    });
-
-    if (text.includes(issuerLower)) {
-      confidence += 0.3;
     }
 
-    if (liquidityProviders.length === 0 && !administrator && !sponsor) {
-      return null;
+    // Save search to history; a cancelled search keeps what it found so far
+    this.saveSearchToHistory(issuerName, results, profile);
+
+    // With skipped queries the outcome is returned anyway, so the form can
+    // show why they failed instead of a bare "nothing found"
+    if (results.length === 0 && !cancelled && skipped.length === 0) {
+      throw new Error(`Could not find relevant information after ${queriesCompleted} search attempts. Please try a different issuer name or check if the ABCP program exists.`);
     }
 
+    const uniqueResults = this.removeDuplicates(results);
     return {
-      issuer: issuerName,
-      liquidityProviders,
-      administrator,
-      sponsor,
-      confidence: Math.min(confidence, 1.0),
-      source: ''
+      results: uniqueResults.sort((a, b) => b.confidence - a.confidence),
+      cancelled,
+      queriesCompleted,
+      queriesTotal: searchQueries.length,
+      queriesCached,
+      resultsExamined: hits.size,
+      resultsWithFindings: results.length,
+      skipped
     };
   }
 
-  private cleanExtractedText(text: string): string {
-    return text
-      .replace(/[,.;:!?()[\]{}]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .split(' ')
-      .slice(0, 8)
-      .join(' ');
+  private async performWebSearch(
+    query: string,
+    provider: SearchProviderDescriptor,
+    engineId?: string,
+    { deep = false, bypassCache = false, depth = DEFAULT_SEARCH_DEPTH, signal }: Pick<SearchOptions, 'deep' | 'bypassCache' | 'depth' | 'signal'> = {}
+  ): Promise<WebsearchResponse> {
+    if (!WebSearchService.hasCredential(provider)) {
+      throw new Error(`${provider.displayName} credentials not configured`);
+    }
+
+    try {
+      return await apiClient.websearch({
+        query,
+        provider: provider.id,
+        ...(await WebSearchService.credentialFields(provider)),
+        engineId,
+        numResults: depth,
+        deep,
+        bypassCache
+      }, signal);
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error(`${provider.id} search failed:`, error);
+      }
+      if (error instanceof ApiError) {
+        throw new SearchProviderError(
+          error.message,
+          error.reason ?? 'failed',
+          error.status,
+          error.retryAfter !== undefined ? error.retryAfter * 1000 : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Vault mode sends the credential ID; local mode sends the decrypted key
+  // to this user's own server
+  private static async credentialFields(
+    provider: SearchProviderDescriptor
+  ): Promise<{ credentialId?: string; credentials?: ProviderCredentials }> {
+    if (provider.credentials.length === 0) return {};
+    if (await WebSearchService.getCredentialStorage() === 'local') {
+      const credentialId = WebSearchService.getProviderCredential(provider.id);
+      return { credentials: credentialId ? getLocalCredentials()[credentialId]?.fields : undefined };
+    }
+    return { credentialId: WebSearchService.getProviderCredential(provider.id) };
+  }
+
+  private static resolveEngineId(profileId?: string): string {
+    const profile = profileId
+      ? WebSearchService.getCSEProfiles().find(candidate => candidate.id === profileId)
+      : WebSearchService.getDefaultCSEProfile();
+    if (!profile) {
+      throw new Error('Google Custom Search Engine ID not configured');
+    }
+    return profile.engineId;
   }
 
   private removeDuplicates(results: ABCPResult[]): ABCPResult[] {
     const seen = new Set<string>();
     return results.filter(result => {
-      const key = `${result.issuer}-${result.liquidityProviders.join(',')}-${result.administrator || ''}-${result.sponsor || ''}`;
+      const providers = result.liquidityProviders.map(provider => provider.institutionId).sort().join(',');
+      const enhancers = result.creditEnhancementProviders.map(enhancer => `${enhancer.institutionId}:${enhancer.scope}`).sort().join(',');
+      const key = `${result.issuer}-${providers}-${enhancers}-${result.administrator?.institutionId || ''}-${result.sponsor?.institutionId || ''}`;
       if (seen.has(key)) {
         return false;
       }
@@ -238,13 +733,14 @@ export class WebSearchService {
     });
   }
 
-  private saveSearchToHistory(issuer: string, results: ABCPResult[]): void {
+  private saveSearchToHistory(issuer: string, results: ABCPResult[], profile: SearchProfile): void {
     const history = WebSearchService.getSearchHistory();
     const newSearch: SearchHistory = {
       id: Date.now().toString(),
       issuer,
       timestamp: Date.now(),
-      results
+      results,
+      profile: { id: profile.id, name: profile.name }
     };
     
     history.unshift(newSearch);
@@ -256,12 +752,37 @@ export class WebSearchService {
   static getSearchHistory(): SearchHistory[] {
     try {
       const history = localStorage.getItem('abcp_search_history');
-      return history ? JSON.parse(history) : [];
+      const entries: SearchHistory[] = history ? JSON.parse(history) : [];
+      return entries.map(entry => ({
+        ...entry,
+        results: entry.results.map(WebSearchService.migrateLegacyResult)
+      }));
     } catch {
       return [];
     }
   }
 
+  // History saved by older versions stored bare names, then entities without
+  // canonical institution IDs; both are brought up to the current shape
+  private static migrateLegacyResult(result: ABCPResult): ABCPResult {
+    const toEntity = (value: ExtractedEntity | string | undefined): ExtractedEntity | undefined => {
+      if (value === undefined) return undefined;
+      if (typeof value === 'string') {
+        return createEntity(value, { sentence: '', pattern: '' });
+      }
+      return value.institutionId ? value : createEntity(value.name, value.evidence);
+    };
+
+    return {
+      ...result,
+      liquidityProviders: result.liquidityProviders.map(toEntity),
+      creditEnhancementProviders: result.creditEnhancementProviders ?? [],
+      ratings: result.ratings ?? [],
+      administrator: toEntity(result.administrator),
+      sponsor: toEntity(result.sponsor)
+    };
+  }
+
   static clearSearchHistory(): void {
     localStorage.removeItem('abcp_search_history');
   }
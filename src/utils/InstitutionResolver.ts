@@ -0,0 +1,69 @@
+import { INSTITUTIONS } from '@/utils/institutionAliases';
+
+export interface ResolvedInstitution {
+  id: string;
+  displayName: string;
+}
+
+// Mentions that match no alias still get a stable ID so they dedupe by spelling
+const UNLISTED_PREFIX = 'unlisted:';
+
+const LEGAL_SUFFIXES = new Set([
+  'na', 'plc', 'ag', 'sa', 'nv', 'ua', 'ab', 'abp', 'spa',
+  'llc', 'inc', 'corp', 'corporation', 'ltd', 'limited', 'co', 'company', 'the',
+]);
+
+let aliasIndex: { alias: string; id: string; displayName: string }[] | null = null;
+
+/**
+ * Reduces an institution mention to a comparable form: lowercase ASCII,
+ * punctuation removed, initials joined ("J.P." becomes "jp") and legal
+ * suffixes such as "N.A." or "National Association" dropped.
+ */
+export function normalizeInstitutionName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\bnational\s+association\b/g, ' ')
+    .replace(/\b([a-z])\s+(?=[a-z]\b)/g, '$1')
+    .split(/\s+/)
+    .filter(word => word && !LEGAL_SUFFIXES.has(word))
+    .join(' ');
+}
+
+export function resolveInstitution(mention: string): ResolvedInstitution {
+  const normalized = normalizeInstitutionName(mention);
+  const padded = ` ${normalized} `;
+
+  const match = getAliasIndex().find(entry => padded.includes(` ${entry.alias} `));
+  if (match) {
+    return { id: match.id, displayName: match.displayName };
+  }
+
+  return {
+    id: `${UNLISTED_PREFIX}${normalized.replace(/\s+/g, '-') || mention.trim().toLowerCase()}`,
+    displayName: mention.trim(),
+  };
+}
+
+export function isListedInstitution(id: string): boolean {
+  return !id.startsWith(UNLISTED_PREFIX);
+}
+
+// Longest aliases first, so "bank of new york mellon" wins over "bank of new york"
+function getAliasIndex() {
+  if (!aliasIndex) {
+    aliasIndex = INSTITUTIONS
+      .flatMap(institution => institution.aliases.map(alias => ({
+        alias: normalizeInstitutionName(alias),
+        id: institution.id,
+        displayName: institution.displayName,
+      })))
+      .filter(entry => entry.alias)
+      .sort((a, b) => b.alias.length - a.alias.length);
+  }
+  return aliasIndex;
+}
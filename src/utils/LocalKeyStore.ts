@@ -0,0 +1,219 @@
+// Passphrase-encrypted provider keys for single-user deployments that run
+// without the server-side credential vault. Keys are encrypted with AES-GCM
+// under a PBKDF2-derived key; once unlocked they live in memory only, until
+// the store is locked again by hand or after a period of inactivity.
+
+const STORAGE_KEY = 'encrypted_search_credentials';
+const STORE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310_000;
+export const DEFAULT_IDLE_LOCK_MS = 15 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Stored under its own ID, so one provider can hold several keys
+export interface LocalCredential {
+  provider: string;
+  label: string;
+  fields: Record<string, string>;
+  createdAt: string;
+}
+
+interface EncryptedStore {
+  version: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  // Which providers have a key, readable while locked so the app can tell
+  // whether it is configured
+  providers: string[];
+}
+
+interface UnlockedSession {
+  key: CryptoKey;
+  salt: string;
+  credentials: Record<string, LocalCredential>;
+}
+
+let session: UnlockedSession | null = null;
+// Writes run one at a time, so a slower encryption never lands after a newer one
+let pendingWrite: Promise<unknown> = Promise.resolve();
+// Bumped by a reset, so writes queued before it don't bring the old keys back
+let storeGeneration = 0;
+const listeners = new Set<(unlocked: boolean) => void>();
+
+export function hasLocalKeyStore(): boolean {
+  return localStorage.getItem(STORAGE_KEY) !== null;
+}
+
+export function isLocalKeyStoreUnlocked(): boolean {
+  return session !== null;
+}
+
+export function localKeyStoreProviders(): string[] {
+  return readStore()?.providers ?? [];
+}
+
+/**
+ * Starts a new store under `passphrase`, seeded with `initial` (typically
+ * plain-text keys found from older versions), and leaves it unlocked.
+ */
+export async function createLocalKeyStore(
+  passphrase: string,
+  initial: Record<string, LocalCredential> = {}
+): Promise<void> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  session = { key: await deriveKey(passphrase, salt), salt, credentials: { ...initial } };
+  await persist();
+  notify();
+}
+
+export async function unlockLocalKeyStore(passphrase: string): Promise<void> {
+  const store = readStore();
+  if (!store) {
+    throw new Error('No encrypted keys are stored in this browser');
+  }
+
+  const key = await deriveKey(passphrase, store.salt);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(store.iv) },
+      key,
+      fromBase64(store.ciphertext)
+    );
+  } catch {
+    // AES-GCM fails authentication rather than returning garbage
+    throw new Error('Wrong passphrase');
+  }
+
+  const credentials: Record<string, LocalCredential> = JSON.parse(new TextDecoder().decode(plaintext));
+  // Stores written before several keys per provider were keyed by provider
+  for (const [id, credential] of Object.entries(credentials)) {
+    credential.provider ??= id;
+  }
+  session = { key, salt: store.salt, credentials };
+  notify();
+}
+
+export function lockLocalKeyStore(): void {
+  if (!session) return;
+  session = null;
+  notify();
+}
+
+export function getLocalCredentials(): Record<string, LocalCredential> {
+  return requireSession().credentials;
+}
+
+export async function setLocalCredential(credentialId: string, credential: LocalCredential): Promise<void> {
+  requireSession().credentials[credentialId] = credential;
+  await persist();
+}
+
+export async function removeLocalCredential(credentialId: string): Promise<void> {
+  delete requireSession().credentials[credentialId];
+  await persist();
+}
+
+// Forgets the store and every key in it, e.g. after a lost passphrase
+export function resetLocalKeyStore(): void {
+  storeGeneration++;
+  localStorage.removeItem(STORAGE_KEY);
+  lockLocalKeyStore();
+}
+
+export function onLocalKeyStoreChange(listener: (unlocked: boolean) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Locks the store once the page has seen no user activity for `timeoutMs`.
+ * Returns a function that stops watching.
+ */
+export function startIdleLock(timeoutMs = DEFAULT_IDLE_LOCK_MS): () => void {
+  let timer = window.setTimeout(lockLocalKeyStore, timeoutMs);
+  const resetTimer = () => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(lockLocalKeyStore, timeoutMs);
+  };
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+  return () => {
+    window.clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+  };
+}
+
+function requireSession(): UnlockedSession {
+  if (!session) {
+    throw new Error('Stored keys are locked; unlock them with your passphrase');
+  }
+  return session;
+}
+
+/**
+ * Encrypts the session's keys and stores them. Each write waits for the one
+ * before it and encrypts the keys as they are when its turn comes, so the
+ * last write to finish always holds the newest keys. A write queued before
+ * a reset is dropped rather than bringing the old store back.
+ * Every write uses a fresh IV; AES-GCM must never reuse one under the same key.
+ */
+function persist(): Promise<void> {
+  const { key, salt, credentials } = requireSession();
+  const generation = storeGeneration;
+  const write = pendingWrite.then(async () => {
+    if (generation !== storeGeneration) return;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(credentials))
+    );
+
+    const store: EncryptedStore = {
+      version: STORE_VERSION,
+      salt,
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+      providers: Array.from(new Set(Object.values(credentials).map(credential => credential.provider)))
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+function readStore(): EncryptedStore | undefined {
+  try {
+    const store: EncryptedStore | null = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return store?.version === STORE_VERSION ? store : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function deriveKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function notify(): void {
+  listeners.forEach(listener => listener(session !== null));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
@@ -0,0 +1,106 @@
+export type RatingAgency = 'sp' | 'moodys' | 'fitch' | 'dbrs' | 'kbra';
+
+export interface ParsedRating {
+  agency: RatingAgency;
+  // Normalized to the agency's published short-term scale, e.g. "A-1+", "P-1", "R-1 (high)"
+  rating: string;
+}
+
+export const RATING_AGENCY_LABELS: Record<RatingAgency, string> = {
+  sp: 'S&P',
+  moodys: "Moody's",
+  fitch: 'Fitch',
+  dbrs: 'DBRS Morningstar',
+  kbra: 'KBRA',
+};
+
+// Each agency's short-term symbols are distinct (A-1 vs P-1 vs F1 vs R-1 vs K1),
+// so the symbol alone identifies the agency
+const SCALE_PATTERNS: { agency: RatingAgency; pattern: RegExp; normalize: (match: RegExpMatchArray) => string }[] = [
+  {
+    agency: 'sp',
+    // Unhyphenated "A1" is a Moody's long-term rating; it only reads as S&P
+    // right after the agency's name ("S&P A1+"), or when S&P is the next
+    // agency named in the same clause ("rated A1+ by S&P", "A1+ (Standard &
+    // Poor's)")
+    pattern: /\bA-([123])(\+)?(?![\w-])|(?:\bS&P|Standard\s*&\s*Poor['’]?s)(?:\s+rating\s+of|:)?\s+A([123])(\+)?(?![\w-])|\bA([123])(\+)?(?![\w-])(?=(?:(?![Mm]oody|[Ff]itch|DBRS|KBRA|Kroll)[^;,])*?(?:\bS&P|Standard\s*&\s*Poor))/g,
+    normalize: match => `A-${match[1] ?? match[3] ?? match[5]}${match[2] ?? match[4] ?? match[6] ?? ''}`,
+  },
+  {
+    agency: 'moodys',
+    pattern: /\b(?:P-?|Prime-)([123])(?![\w-])|\b(NP|Not\s+Prime)\b/g,
+    normalize: match => (match[2] ? 'NP' : `P-${match[1]}`),
+  },
+  {
+    agency: 'fitch',
+    pattern: /\bF-?([123])(\+)?(?![\w-])/g,
+    normalize: match => `F${match[1]}${match[2] ?? ''}`,
+  },
+  {
+    agency: 'dbrs',
+    pattern: /\bR-?([1-5])(?:\s*\(\s*(high|middle|mid|low)\s*\)|[ \t]?(H|M|L)\b)?(?![\w-])/gi,
+    normalize: match => {
+      const grade = `R-${match[1]}`;
+      const modifier = (match[2] ?? match[3])?.toLowerCase();
+      if (!modifier) return grade;
+      const expanded = { h: 'high', m: 'middle', mid: 'middle', l: 'low' }[modifier] ?? modifier;
+      return `${grade} (${expanded})`;
+    },
+  },
+  {
+    agency: 'kbra',
+    pattern: /\bK-?([123])(\+)?(?![\w-])/g,
+    normalize: match => `K${match[1]}${match[2] ?? ''}`,
+  },
+];
+
+// Agency names that settle which agency a clause is about
+const AGENCY_NAMES: Partial<Record<RatingAgency, RegExp>> = {
+  sp: /standard\s*&\s*poor|s&p/i,
+  moodys: /moody/i,
+};
+
+const RATING_CONTEXT = /\brat(?:ed|es|ing|ings)\b|standard\s*&\s*poor|s&p|moody|fitch|dbrs|kbra|kroll/i;
+
+/**
+ * Finds short-term ratings in a sentence. Symbols are only read from
+ * sentences that talk about ratings or name an agency, since tokens like
+ * "F1" or "A-2" appear in unrelated contexts too.
+ */
+export function parseRatings(sentence: string): (ParsedRating & { pattern: string })[] {
+  if (!RATING_CONTEXT.test(sentence)) return [];
+
+  const ratings: (ParsedRating & { pattern: string })[] = [];
+  for (const { agency, pattern, normalize } of SCALE_PATTERNS) {
+    for (const match of sentence.matchAll(pattern)) {
+      if (agency === 'sp' && namesOtherAgency(clauseAt(sentence, match.index ?? 0), agency)) continue;
+      const rating = normalize(match);
+      if (!ratings.some(existing => existing.agency === agency && existing.rating === rating)) {
+        ratings.push({ agency, rating, pattern: pattern.source });
+      }
+    }
+  }
+  return ratings;
+}
+
+// The part of the sentence between separators around a match, e.g. "A-1 by
+// Moody's" in "rated A-1 by Moody's; F1 by Fitch". A parenthetical right
+// after it belongs to it, as in "A1+ (Standard & Poor's)"
+function clauseAt(sentence: string, index: number): string {
+  const start = Math.max(...[';', ',', '(', ')'].map(separator => sentence.lastIndexOf(separator, index)));
+  const ends = [';', ',', '(', ')'].map(separator => sentence.indexOf(separator, index)).filter(end => end !== -1);
+  const end = ends.length > 0 ? Math.min(...ends) : sentence.length;
+  const parenthetical = sentence[end] === '(' ? sentence.slice(end).match(/^\([^()]*\)/)?.[0] ?? '' : '';
+  return sentence.slice(start + 1, end) + parenthetical;
+}
+
+// A symbol in a clause that names a different agency, and not its own, is
+// never credited to its own agency
+function namesOtherAgency(clause: string, agency: RatingAgency): boolean {
+  if (AGENCY_NAMES[agency]?.test(clause)) return false;
+  return Object.entries(AGENCY_NAMES).some(([other, name]) => other !== agency && name.test(clause));
+}
+
+export function formatRating({ agency, rating }: ParsedRating): string {
+  return `${RATING_AGENCY_LABELS[agency]} ${rating}`;
+}
@@ -0,0 +1,208 @@
+import type { TextSegment } from '@/utils/ABCPExtractor';
+import type { FilingMetadata } from '@/utils/FirecrawlService';
+
+// Describes the search providers the app can use. Descriptors are plain data
+// shared by the setup form, WebSearchService and the API route; the search
+// implementations live server-side in src/server/providers.
+
+export type QueryOperator = 'phrase' | 'site' | 'or';
+
+export interface CredentialField {
+  // Key in the credentials object sent to /api/websearch, e.g. "apiKey"
+  id: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+}
+
+export interface SearchProviderDescriptor {
+  id: string;
+  displayName: string;
+  // "web" providers can be picked in the setup form; "filings" providers are
+  // used for the filing queries of every search
+  kind: 'web' | 'filings';
+  credentials: CredentialField[];
+  operators: QueryOperator[];
+  // Results already hold the whole document, so deep mode skips them
+  returnsFullText?: boolean;
+  // Searches run against a named Google Programmable Search Engine profile
+  usesEngineProfiles?: boolean;
+  setupHint?: string;
+}
+
+// One hit as returned by /api/websearch, whatever the provider
+export interface SearchResultItem {
+  url: string;
+  title: string;
+  content: string;
+  snippet: string;
+  filing?: FilingMetadata;
+  // Set when deep mode read a PDF, so extraction keeps page numbers and tables
+  segments?: TextSegment[];
+  fullText?: boolean;
+}
+
+// A provider key kept in the server-side vault. The browser only ever sees
+// this summary and refers to the key by its ID
+export interface CredentialSummary {
+  id: string;
+  provider: string;
+  label: string;
+  // Masked value of each field, e.g. "••••a1b2"
+  hints: Record<string, string>;
+  createdAt: string;
+}
+
+// Outcome of a test call made with a key before it is saved. "network_error"
+// and "check_failed" say nothing about the key itself
+export type CredentialStatus = 'valid' | 'invalid_key' | 'missing_engine_id' | 'quota_exhausted' | 'network_error' | 'check_failed';
+
+export const CREDENTIAL_STATUS_LABELS: Record<CredentialStatus, string> = {
+  valid: 'Valid',
+  invalid_key: 'Invalid key',
+  missing_engine_id: 'Missing engine ID',
+  quota_exhausted: 'Quota exhausted',
+  network_error: 'Network error',
+  check_failed: 'Could not check the key',
+};
+
+export const UNVERIFIED_CREDENTIAL_STATUSES: CredentialStatus[] = ['network_error', 'check_failed'];
+
+// Remaining allowance, for providers whose API reports it
+export interface QuotaInfo {
+  remaining: number;
+  limit?: number;
+  unit: 'searches' | 'credits';
+  resetsAt?: string;
+}
+
+export interface CredentialCheckResult {
+  status: CredentialStatus;
+  message: string;
+  quota?: QuotaInfo;
+}
+
+// Enough to tell two keys apart on the management screen
+export function maskCredentialFields(fields: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(fields).map(([field, value]) => [
+    field,
+    value.length > 8 ? `••••${value.slice(-4)}` : '••••'
+  ]));
+}
+
+// Why a query returned nothing. /api/websearch reports it with every failure
+// so the search form can tell quota problems from outages
+export type SearchFailureReason = 'rate_limited' | 'timeout' | 'unavailable' | 'circuit_open' | 'rejected' | 'failed';
+
+export const SEARCH_FAILURE_LABELS: Record<SearchFailureReason, string> = {
+  rate_limited: 'Rate limited',
+  timeout: 'Timed out',
+  unavailable: 'Provider unavailable',
+  circuit_open: 'Paused after repeated failures',
+  rejected: 'Rejected by provider',
+  failed: 'Search failed',
+};
+
+export class SearchProviderError extends Error {
+  reason: SearchFailureReason;
+  // Upstream HTTP status, when the provider answered at all
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, reason: SearchFailureReason, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'SearchProviderError';
+    this.reason = reason;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const API_KEY: CredentialField = { id: 'apiKey', label: 'API Key', secret: true };
+
+export const BUILTIN_SEARCH_PROVIDERS: SearchProviderDescriptor[] = [
+  {
+    id: 'google',
+    displayName: 'Google Custom Search API',
+    kind: 'web',
+    credentials: [API_KEY],
+    operators: ['phrase', 'site', 'or'],
+    usesEngineProfiles: true,
+    setupHint: 'Get API key + Custom Search Engine ID from Google Cloud Console',
+  },
+  {
+    id: 'bing',
+    displayName: 'Bing Web Search API',
+    kind: 'web',
+    credentials: [{ ...API_KEY, label: 'Subscription Key' }],
+    operators: ['phrase', 'site', 'or'],
+    setupHint: 'Get subscription key from Azure Cognitive Services',
+  },
+  {
+    id: 'serpapi',
+    displayName: 'SerpAPI',
+    kind: 'web',
+    credentials: [API_KEY],
+    operators: ['phrase', 'site', 'or'],
+    setupHint: 'Get API key from serpapi.com (easiest to set up)',
+  },
+  {
+    id: 'firecrawl',
+    displayName: 'Firecrawl API',
+    kind: 'web',
+    credentials: [API_KEY],
+    operators: ['phrase', 'site', 'or'],
+    returnsFullText: true,
+    setupHint: 'Get API key from firecrawl.dev',
+  },
+  {
+    id: 'edgar',
+    displayName: 'SEC EDGAR Full-Text Search',
+    kind: 'filings',
+    credentials: [],
+    operators: ['phrase', 'or'],
+    returnsFullText: true,
+  },
+];
+
+export function findProviderDescriptor(
+  providers: SearchProviderDescriptor[],
+  id: string
+): SearchProviderDescriptor | undefined {
+  return providers.find(provider => provider.id === id);
+}
+
+export function missingCredentials(
+  provider: SearchProviderDescriptor,
+  credentials: Record<string, string | undefined> = {}
+): CredentialField[] {
+  return provider.credentials.filter(field => !credentials[field.id]?.trim());
+}
+
+// Legacy IDs look like "017576662512468239146:omuauf_lfve", current ones are
+// a bare alphanumeric string. Shared so the setup form and the Google
+// provider apply the same check
+export const CSE_ENGINE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9:_-]{5,63}$/;
+
+export function isValidEngineId(engineId: string): boolean {
+  return CSE_ENGINE_ID_PATTERN.test(engineId.trim());
+}
+
+/**
+ * Rewrites a query for a provider that lacks some operators: "site:" clauses
+ * (and the ORs joining them) are dropped and quotes are removed, so the query
+ * still runs as plain keywords instead of being rejected or misread.
+ */
+export function adaptQuery(query: string, provider: SearchProviderDescriptor): string {
+  let adapted = query;
+  if (!provider.operators.includes('site')) {
+    adapted = adapted.replace(/(?:\bOR\s+)?\bsite:\S+(?:\s+OR\b)?/g, ' ');
+  }
+  if (!provider.operators.includes('or')) {
+    adapted = adapted.replace(/\bOR\b/g, ' ');
+  }
+  if (!provider.operators.includes('phrase')) {
+    adapted = adapted.replace(/"/g, '');
+  }
+  return adapted.replace(/\s+/g, ' ').trim();
+}
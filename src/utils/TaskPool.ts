@@ -0,0 +1,23 @@
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight. Items
+ * are started in order; once `signal` aborts no new item is started and the
+ * returned promise settles when the calls already running have finished.
+ * Workers are expected to handle their own errors.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
@@ -0,0 +1,234 @@
+// Bundled alias dictionary for institutions that commonly act as ABCP
+// liquidity banks, credit enhancers or administrators. To add an institution
+// or a spelling, append to this list; aliases are matched after normalization
+// (lowercase, punctuation and legal suffixes removed, "J.P." read as "jp"), so
+// "J.P. Morgan Chase Bank, National Association" matches "jp morgan chase".
+
+export interface InstitutionDefinition {
+  id: string;
+  displayName: string;
+  aliases: string[];
+}
+
+export const INSTITUTIONS: InstitutionDefinition[] = [
+  {
+    id: 'jpmorgan-chase',
+    displayName: 'JPMorgan Chase Bank, N.A.',
+    aliases: ['jpmorgan chase bank', 'jpmorgan chase', 'jpmorgan', 'jp morgan chase', 'jp morgan', 'chase bank', 'jpmcb'],
+  },
+  {
+    id: 'bank-of-america',
+    displayName: 'Bank of America, N.A.',
+    aliases: ['bank of america', 'bofa', 'bofa securities', 'merrill lynch'],
+  },
+  {
+    id: 'wells-fargo',
+    displayName: 'Wells Fargo Bank, N.A.',
+    aliases: ['wells fargo bank', 'wells fargo'],
+  },
+  {
+    id: 'citibank',
+    displayName: 'Citibank, N.A.',
+    aliases: ['citibank', 'citigroup', 'citi'],
+  },
+  {
+    id: 'bny-mellon',
+    displayName: 'The Bank of New York Mellon',
+    aliases: ['bank of new york mellon', 'bny mellon', 'bank of new york', 'bny'],
+  },
+  {
+    id: 'state-street',
+    displayName: 'State Street Bank and Trust Company',
+    aliases: ['state street bank and trust', 'state street bank', 'state street'],
+  },
+  {
+    id: 'us-bank',
+    displayName: 'U.S. Bank National Association',
+    aliases: ['us bank', 'us bancorp'],
+  },
+  {
+    id: 'pnc',
+    displayName: 'PNC Bank, N.A.',
+    aliases: ['pnc bank', 'pnc'],
+  },
+  {
+    id: 'truist',
+    displayName: 'Truist Bank',
+    aliases: ['truist bank', 'truist', 'suntrust bank', 'suntrust'],
+  },
+  {
+    id: 'goldman-sachs',
+    displayName: 'Goldman Sachs Bank USA',
+    aliases: ['goldman sachs bank usa', 'goldman sachs bank', 'goldman sachs'],
+  },
+  {
+    id: 'morgan-stanley',
+    displayName: 'Morgan Stanley Bank, N.A.',
+    aliases: ['morgan stanley bank', 'morgan stanley'],
+  },
+  {
+    id: 'barclays',
+    displayName: 'Barclays Bank PLC',
+    aliases: ['barclays bank', 'barclays'],
+  },
+  {
+    id: 'hsbc',
+    displayName: 'HSBC Bank USA, N.A.',
+    aliases: ['hsbc bank usa', 'hsbc bank', 'hsbc'],
+  },
+  {
+    id: 'lloyds',
+    displayName: 'Lloyds Bank plc',
+    aliases: ['lloyds bank', 'lloyds banking group', 'lloyds'],
+  },
+  {
+    id: 'natwest',
+    displayName: 'NatWest Markets Plc',
+    aliases: ['natwest markets', 'natwest', 'royal bank of scotland', 'rbs'],
+  },
+  {
+    id: 'standard-chartered',
+    displayName: 'Standard Chartered Bank',
+    aliases: ['standard chartered bank', 'standard chartered'],
+  },
+  {
+    id: 'bnp-paribas',
+    displayName: 'BNP Paribas',
+    aliases: ['bnp paribas', 'bnp'],
+  },
+  {
+    id: 'credit-agricole',
+    displayName: 'Crédit Agricole Corporate and Investment Bank',
+    aliases: ['credit agricole corporate and investment bank', 'credit agricole cib', 'credit agricole', 'calyon'],
+  },
+  {
+    id: 'societe-generale',
+    displayName: 'Société Générale',
+    aliases: ['societe generale', 'socgen', 'sg americas'],
+  },
+  {
+    id: 'natixis',
+    displayName: 'Natixis',
+    aliases: ['natixis'],
+  },
+  {
+    id: 'deutsche-bank',
+    displayName: 'Deutsche Bank AG',
+    aliases: ['deutsche bank'],
+  },
+  {
+    id: 'commerzbank',
+    displayName: 'Commerzbank AG',
+    aliases: ['commerzbank'],
+  },
+  {
+    id: 'dz-bank',
+    displayName: 'DZ BANK AG',
+    aliases: ['dz bank'],
+  },
+  {
+    id: 'helaba',
+    displayName: 'Landesbank Hessen-Thüringen Girozentrale',
+    aliases: ['landesbank hessen thuringen', 'landesbank hessen thueringen', 'helaba'],
+  },
+  {
+    id: 'ing',
+    displayName: 'ING Bank N.V.',
+    aliases: ['ing bank', 'ing capital'],
+  },
+  {
+    id: 'rabobank',
+    displayName: 'Coöperatieve Rabobank U.A.',
+    aliases: ['cooperatieve rabobank', 'rabobank'],
+  },
+  {
+    id: 'santander',
+    displayName: 'Banco Santander, S.A.',
+    aliases: ['banco santander', 'santander bank', 'santander'],
+  },
+  {
+    id: 'ubs',
+    displayName: 'UBS AG',
+    aliases: ['ubs'],
+  },
+  {
+    id: 'credit-suisse',
+    displayName: 'Credit Suisse AG',
+    aliases: ['credit suisse'],
+  },
+  {
+    id: 'nordea',
+    displayName: 'Nordea Bank Abp',
+    aliases: ['nordea bank', 'nordea'],
+  },
+  {
+    id: 'seb',
+    displayName: 'Skandinaviska Enskilda Banken AB',
+    aliases: ['skandinaviska enskilda banken', 'seb'],
+  },
+  {
+    id: 'mufg',
+    displayName: 'MUFG Bank, Ltd.',
+    aliases: ['mufg bank', 'mufg', 'bank of tokyo mitsubishi ufj', 'bank of tokyo mitsubishi'],
+  },
+  {
+    id: 'mizuho',
+    displayName: 'Mizuho Bank, Ltd.',
+    aliases: ['mizuho bank', 'mizuho'],
+  },
+  {
+    id: 'smbc',
+    displayName: 'Sumitomo Mitsui Banking Corporation',
+    aliases: ['sumitomo mitsui banking', 'sumitomo mitsui', 'smbc'],
+  },
+  {
+    id: 'rbc',
+    displayName: 'Royal Bank of Canada',
+    aliases: ['royal bank of canada', 'rbc capital markets', 'rbc'],
+  },
+  {
+    id: 'td',
+    displayName: 'The Toronto-Dominion Bank',
+    aliases: ['toronto dominion bank', 'toronto dominion', 'td bank', 'td securities'],
+  },
+  {
+    id: 'bmo',
+    displayName: 'Bank of Montreal',
+    aliases: ['bank of montreal', 'bmo harris bank', 'bmo'],
+  },
+  {
+    id: 'scotiabank',
+    displayName: 'The Bank of Nova Scotia',
+    aliases: ['bank of nova scotia', 'scotiabank'],
+  },
+  {
+    id: 'cibc',
+    displayName: 'Canadian Imperial Bank of Commerce',
+    aliases: ['canadian imperial bank of commerce', 'cibc'],
+  },
+  {
+    id: 'national-bank-of-canada',
+    displayName: 'National Bank of Canada',
+    aliases: ['national bank of canada'],
+  },
+  {
+    id: 'westpac',
+    displayName: 'Westpac Banking Corporation',
+    aliases: ['westpac banking', 'westpac'],
+  },
+  {
+    id: 'anz',
+    displayName: 'Australia and New Zealand Banking Group Limited',
+    aliases: ['australia and new zealand banking group', 'anz'],
+  },
+  {
+    id: 'nab',
+    displayName: 'National Australia Bank Limited',
+    aliases: ['national australia bank', 'nab'],
+  },
+  {
+    id: 'cba',
+    displayName: 'Commonwealth Bank of Australia',
+    aliases: ['commonwealth bank of australia', 'commonwealth bank'],
+  },
+];